@@ -0,0 +1,222 @@
+/**
+ * React context for a shared FHEVM instance
+ * Initializes once, re-initializes when the wallet switches chain or account,
+ * and lets any hook below read the status without prop drilling
+ */
+
+import {
+  createContext,
+  createElement,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type ReactNode,
+} from 'react';
+import {
+  getDefaultClient,
+  toFhevmError,
+  walletClientOptions,
+  type FhevmClient,
+  type FhevmError,
+  type FhevmInitializeOptions,
+  type FhevmNetworkConfig,
+  type ViemWalletClient,
+} from '../core/index.js';
+
+export type FhevmStatus = 'idle' | 'loading' | 'ready' | 'error';
+
+export interface FhevmState {
+  status: FhevmStatus;
+  instance: any;
+  network?: FhevmNetworkConfig;
+  /** Chain the wallet reports */
+  chainId?: number;
+  /** Active wallet account */
+  account?: string;
+  error: FhevmError | null;
+}
+
+type Listener = () => void;
+
+/**
+ * Minimal store, so `useFhevmStatus` re-renders only when its slice changes
+ */
+export class FhevmStore {
+  private state: FhevmState = { status: 'idle', instance: null, error: null };
+  private listeners = new Set<Listener>();
+
+  getState() {
+    return this.state;
+  }
+
+  set(patch: Partial<FhevmState>) {
+    this.state = { ...this.state, ...patch };
+    this.listeners.forEach((listener) => listener());
+  }
+
+  subscribe(listener: Listener) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+export interface FhevmContextValue {
+  client: FhevmClient;
+  store: FhevmStore;
+  initialize: (options?: FhevmInitializeOptions) => Promise<void>;
+}
+
+const FhevmContext = createContext<FhevmContextValue | null>(null);
+
+export interface FhevmProviderProps {
+  /** Passed to every `initialize()`, including re-initializations */
+  config?: FhevmInitializeOptions;
+  /** Defaults to the module-level client */
+  client?: FhevmClient;
+  /**
+   * wagmi's `useWalletClient()` data: the instance, signatures and the ACL go
+   * through the connected wallet instead of `window.ethereum`. wagmi hands out
+   * a new client on chain or account change, which re-initializes.
+   * `null` (no wallet connected yet) holds off initializing.
+   */
+  walletClient?: ViemWalletClient | null;
+  /** Hold off initializing, e.g. until a wallet is connected (default true) */
+  enabled?: boolean;
+  children?: ReactNode;
+}
+
+export function FhevmProvider({ config, client: clientProp, walletClient, enabled = true, children }: FhevmProviderProps) {
+  const client = clientProp ?? getDefaultClient();
+  const store = useMemo(() => new FhevmStore(), [client]);
+  const wallet = useMemo(() => walletClient ? walletClientOptions(walletClient) : null, [walletClient]);
+  const configRef = useRef<FhevmInitializeOptions | undefined>(config);
+  configRef.current = wallet ? { ...config, ...wallet } : config;
+  const pending = useRef<AbortController | null>(null);
+
+  const initialize = useCallback(async (options?: FhevmInitializeOptions) => {
+    // A newer initialization supersedes the one in flight
+    pending.current?.abort();
+    const controller = new AbortController();
+    pending.current = controller;
+    store.set({ status: 'loading', error: null });
+
+    try {
+      const instance = await client.initialize({ ...configRef.current, ...options, signal: controller.signal });
+      if (controller.signal.aborted) return;
+      store.set({ status: 'ready', instance, network: client.getNetwork() });
+      client.logger.info('FHEVM initialized');
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      store.set({ status: 'error', instance: null, error: toFhevmError(err) });
+      client.logger.error('FHEVM initialization failed:', err);
+    }
+  }, [client, store]);
+
+  useEffect(() => {
+    if (!enabled || walletClient === null) return;
+
+    const provider = configRef.current?.provider ?? (typeof window !== 'undefined' ? window.ethereum : undefined);
+    initialize();
+
+    if (!provider) return () => pending.current?.abort();
+
+    provider.request({ method: 'eth_accounts' })
+      .then((accounts: string[]) => store.set({ account: accounts[0] }))
+      .catch(() => {});
+    provider.request({ method: 'eth_chainId' })
+      .then((chainIdHex: string) => store.set({ chainId: Number(chainIdHex) }))
+      .catch(() => {});
+
+    const onChainChanged = (chainIdHex: string) => {
+      client.logger.debug(`Chain changed to ${Number(chainIdHex)}; re-initializing`);
+      store.set({ chainId: Number(chainIdHex) });
+      initialize();
+    };
+    const onAccountsChanged = (accounts: string[]) => {
+      if (accounts[0] === store.getState().account) return;
+      client.logger.debug('Account changed; re-initializing');
+      store.set({ account: accounts[0] });
+      initialize();
+    };
+    provider.on?.('chainChanged', onChainChanged);
+    provider.on?.('accountsChanged', onAccountsChanged);
+
+    return () => {
+      provider.removeListener?.('chainChanged', onChainChanged);
+      provider.removeListener?.('accountsChanged', onAccountsChanged);
+      pending.current?.abort();
+    };
+  }, [enabled, walletClient, initialize, client, store]);
+
+  const value = useMemo(() => ({ client, store, initialize }), [client, store, initialize]);
+  return createElement(FhevmContext.Provider, { value }, children);
+}
+
+/**
+ * The surrounding FhevmProvider, or null outside of one
+ */
+export function useFhevmContext(): FhevmContextValue | null {
+  return useContext(FhevmContext);
+}
+
+/**
+ * Client of the surrounding FhevmProvider, else the module-level client
+ */
+export function useFhevmClient(): FhevmClient {
+  return useContext(FhevmContext)?.client ?? getDefaultClient();
+}
+
+/**
+ * Read FHEVM state from the surrounding FhevmProvider. Pass a selector to
+ * re-render only when that slice changes (compared with Object.is):
+ *
+ *   const isReady = useFhevmStatus((state) => state.status === 'ready');
+ */
+export function useFhevmStatus(): FhevmState;
+export function useFhevmStatus<T>(selector: (state: FhevmState) => T): T;
+export function useFhevmStatus<T>(selector?: (state: FhevmState) => T): T | FhevmState {
+  const context = useContext(FhevmContext);
+  if (!context) {
+    throw new Error('useFhevmStatus must be used inside <FhevmProvider>.');
+  }
+  const select: (state: FhevmState) => T | FhevmState = selector ?? ((state) => state);
+  // Defined whenever the store is
+  return useStoreSelector(context.store, select) as T | FhevmState;
+}
+
+/**
+ * Like `useFhevmStatus()`, but null outside of a FhevmProvider
+ */
+export function useOptionalFhevmStatus(): FhevmState | null {
+  const store = useContext(FhevmContext)?.store;
+  return useStoreSelector(store, (state) => state) ?? null;
+}
+
+function useStoreSelector<T>(store: FhevmStore | undefined, select: (state: FhevmState) => T): T | undefined {
+  const selected = store ? select(store.getState()) : undefined;
+
+  const selectRef = useRef(select);
+  const selectedRef = useRef(selected);
+  selectRef.current = select;
+  selectedRef.current = selected;
+  const [, forceRender] = useState(0);
+
+  useEffect(() => {
+    if (!store) return;
+    const update = () => {
+      if (!Object.is(selectRef.current(store.getState()), selectedRef.current)) {
+        forceRender((count) => count + 1);
+      }
+    };
+    // Catch changes made between render and subscription
+    update();
+    return store.subscribe(update);
+  }, [store]);
+
+  return selected;
+}
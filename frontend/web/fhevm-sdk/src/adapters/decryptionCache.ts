@@ -0,0 +1,26 @@
+/**
+ * Clear values decrypted through the React hooks, shared by every hook on the
+ * same client. User decryptions are keyed by account, so switching wallets
+ * never shows one user's values to another.
+ */
+
+import type { ClearValue, FhevmClient } from '../core/index.js';
+
+const caches = new WeakMap<FhevmClient, Map<string, ClearValue>>();
+
+export function getDecryptionCache(client: FhevmClient): Map<string, ClearValue> {
+  let cache = caches.get(client);
+  if (!cache) {
+    cache = new Map();
+    caches.set(client, cache);
+  }
+  return cache;
+}
+
+export function userDecryptionKey(userAddress: string, handle: string) {
+  return `user:${userAddress.toLowerCase()}:${handle.toLowerCase()}`;
+}
+
+export function publicDecryptionKey(handle: string) {
+  return `public:${handle.toLowerCase()}`;
+}
@@ -6,10 +6,37 @@
  */
 
 // Import and re-export all individual hooks
+export {
+  FhevmProvider,
+  useFhevmClient,
+  useFhevmStatus,
+  type FhevmProviderProps,
+  type FhevmState,
+  type FhevmStatus,
+} from './FhevmProvider.js';
 export { useWallet } from './useWallet.js';
 export { useFhevm } from './useFhevm.js';
-export { useContract } from './useContract.js';
-export { useDecrypt } from './useDecrypt.js';
+export { useContract, type UseContractOptions } from './useContract.js';
+export {
+  useDecrypt,
+  type DecryptionVerifyFunction,
+  type DecryptionVerifyTarget,
+  type HandleDecryption,
+  type UserDecryptOptions,
+} from './useDecrypt.js';
 export { useEncrypt } from './useEncrypt.js';
+export {
+  useEncryptedValue,
+  type EncryptedValueStatus,
+  type UseEncryptedValueOptions,
+} from './useEncryptedValue.js';
+export {
+  useTransaction,
+  useTransactionHistory,
+  getTransactionStore,
+  TransactionStore,
+  type TrackedTransaction,
+  type UseTransactionOptions,
+} from './useTransaction.js';
 
 
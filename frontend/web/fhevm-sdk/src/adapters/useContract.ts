@@ -1,21 +1,43 @@
 /**
  * Wagmi-like hook for contract interactions
+ * Uses wagmi's viem clients when given, else `window.ethereum`
  */
 
 import { useState, useEffect } from 'react';
 import { ethers } from 'ethers';
+import {
+  publicClientToProvider,
+  walletClientToSigner,
+  type ViemClient,
+  type ViemWalletClient,
+} from '../core/index.js';
 
-export function useContract(address: string, abi: any[]) {
+export interface UseContractOptions {
+  /** Connects the contract to the wallet's signer, for writes */
+  walletClient?: ViemWalletClient | null;
+  /** Read-only connection when there is no wallet client */
+  publicClient?: ViemClient | null;
+}
+
+export function useContract(address: string, abi: any[], { walletClient, publicClient }: UseContractOptions = {}) {
   const [contract, setContract] = useState<ethers.Contract | null>(null);
   const [isReady, setIsReady] = useState(false);
   const [error, setError] = useState<string>('');
 
   useEffect(() => {
-    if (!window.ethereum || !address || !abi) return;
+    if (!address || !abi) return;
 
     try {
-      const provider = new ethers.BrowserProvider(window.ethereum);
-      const contractInstance = new ethers.Contract(address, abi, provider);
+      const runner: ethers.ContractRunner | null = walletClient?.account
+        ? walletClientToSigner(walletClient)
+        : publicClient
+          ? publicClientToProvider(publicClient)
+          : window.ethereum
+            ? new ethers.BrowserProvider(window.ethereum)
+            : null;
+      if (!runner) return;
+
+      const contractInstance = new ethers.Contract(address, abi, runner);
       setContract(contractInstance);
       setIsReady(true);
       setError('');
@@ -23,7 +45,7 @@ export function useContract(address: string, abi: any[]) {
       setError(err instanceof Error ? err.message : 'Contract setup failed');
       setIsReady(false);
     }
-  }, [address, abi]);
+  }, [address, abi, walletClient, publicClient]);
 
   return {
     contract,
@@ -1,48 +1,171 @@
 /**
  * Wagmi-like hook for decryption operations - FHE v0.9
+ * `verifyDecryption` publishes clear values on-chain; `userDecrypt` reveals
+ * them to the connected wallet only
  */
 
 import { useState, useCallback } from 'react';
-import { publicDecryptV09 } from '../core/index.js';
+import type { ethers } from 'ethers';
+import {
+  MissingSignerError,
+  ProofInvalidError,
+  simulateAndSend,
+  toFhevmError,
+  type ClearValue,
+  type FhevmError,
+  type FhevmErrorCode,
+  type OperationOptions,
+  type PublicDecryptOptions,
+} from '../core/index.js';
+import { useFhevmClient } from './FhevmProvider.js';
+import { getDecryptionCache, publicDecryptionKey, userDecryptionKey } from './decryptionCache.js';
+
+/**
+ * Contract function that checks the proof on-chain. It is simulated with
+ * `staticCall` before sending, and reverts are decoded with its ABI.
+ */
+export interface DecryptionVerifyTarget {
+  contract: ethers.BaseContract;
+  functionName: string;
+  args: (abiEncodedClearValues: string, decryptionProof: string) => readonly unknown[];
+}
+
+export type DecryptionVerifyFunction = (abiEncodedClearValues: string, decryptionProof: string) => Promise<any>;
+
+export interface UserDecryptOptions extends OperationOptions {
+  /** Wallet that signs the EIP-712 request; defaults to the client's signer */
+  signer?: ethers.Signer;
+  /** Decrypt again even if the value is cached */
+  refresh?: boolean;
+}
+
+export type HandleDecryption =
+  | { status: 'loading' }
+  | { status: 'decrypted'; value: ClearValue }
+  | { status: 'error'; error: FhevmError };
 
 export function useDecrypt() {
+  const client = useFhevmClient();
   const [isDecrypting, setIsDecrypting] = useState(false);
   const [error, setError] = useState<string>('');
+  const [errorCode, setErrorCode] = useState<FhevmErrorCode | null>(null);
+  const [decryptions, setDecryptions] = useState<Record<string, HandleDecryption>>({});
+
+  const setHandles = useCallback((handles: string[], state: (handle: string) => HandleDecryption) => {
+    setDecryptions((current) => {
+      const next = { ...current };
+      handles.forEach((handle) => {
+        next[handle] = state(handle);
+      });
+      return next;
+    });
+  }, []);
+
+  /**
+   * EIP-712 user decryption: values are revealed to the signing wallet only
+   * and never leave the browser. Progress per handle is in `decryptions`.
+   */
+  const userDecrypt = useCallback(async (
+    handles: string[],
+    contractAddress: string,
+    options: UserDecryptOptions = {}
+  ): Promise<Record<string, ClearValue>> => {
+    const { signer: signerOption, refresh, ...operationOptions } = options;
+    const cache = getDecryptionCache(client);
+    let pending: string[] = [];
+
+    try {
+      const signer = signerOption ?? client.getSigner();
+      if (!signer) {
+        throw new MissingSignerError('A signer is required for user decryption. Pass { signer } or initialize the client with one.');
+      }
+      const userAddress = await signer.getAddress();
+      const key = (handle: string) => userDecryptionKey(userAddress, handle);
+
+      pending = refresh ? handles : handles.filter((handle) => !cache.has(key(handle)));
+      setHandles(handles, (handle) => pending.includes(handle)
+        ? { status: 'loading' }
+        : { status: 'decrypted', value: cache.get(key(handle))! });
+
+      if (pending.length > 0) {
+        const clearValues = await client.decryptClearValues(pending, contractAddress, signer, operationOptions);
+        pending.forEach((handle) => cache.set(key(handle), clearValues[handle]));
+        setHandles(pending, (handle) => ({ status: 'decrypted', value: clearValues[handle] }));
+      }
+
+      return Object.fromEntries(handles.map((handle) => [handle, cache.get(key(handle))!]));
+    } catch (err) {
+      const fhevmError = toFhevmError(err);
+      setHandles(pending.length > 0 ? pending : handles, () => ({ status: 'error', error: fhevmError }));
+      throw fhevmError;
+    }
+  }, [client, setHandles]);
+
+  /**
+   * Drop handles from `decryptions`, e.g. to hide revealed values; the cache is kept
+   */
+  const clearDecryptions = useCallback((handles?: string[]) => {
+    setDecryptions((current) => {
+      if (!handles) return {};
+      const next = { ...current };
+      handles.forEach((handle) => delete next[handle]);
+      return next;
+    });
+  }, []);
 
   const verifyDecryption = useCallback(async (
     handles: string[], 
     contractAddress: string, 
-    verifyFunction: (abiEncodedClearValues: string, decryptionProof: string) => Promise<any>
+    verifyWith: DecryptionVerifyTarget | DecryptionVerifyFunction,
+    options?: PublicDecryptOptions
   ) => {
     setIsDecrypting(true);
     setError('');
+    setErrorCode(null);
     
     try {
-      const decryptionResult = await publicDecryptV09(handles);
+      const decryptionResult = await client.publicDecryptV09(handles, options);
+      if (!decryptionResult.verifiable) {
+        throw new ProofInvalidError('Decryption result has no KMS proof and cannot be verified on-chain');
+      }
       
-      const tx = await verifyFunction(
-        decryptionResult.abiEncodedClearValues,
-        decryptionResult.decryptionProof
-      );
+      const { abiEncodedClearValues, decryptionProof } = decryptionResult;
+      // A bad proof would only surface as an InvalidKMSSignatures revert after paying gas
+      await client.verifyDecryptionProof(handles, abiEncodedClearValues, decryptionProof, options);
+
+      const tx = typeof verifyWith === 'function'
+        ? await verifyWith(abiEncodedClearValues, decryptionProof)
+        : await simulateAndSend(verifyWith.contract, verifyWith.functionName, verifyWith.args(abiEncodedClearValues, decryptionProof));
       
       const receipt = await tx.wait();
       
+      const cache = getDecryptionCache(client);
+      handles.forEach((handle) => cache.set(publicDecryptionKey(handle), decryptionResult.clearValues[handle]));
+
       return {
         decryptionResult,
         transactionReceipt: receipt
       };
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Decryption verification failed');
-      throw err;
+      const fhevmError = toFhevmError(err);
+      setError(fhevmError.message || 'Decryption verification failed');
+      setErrorCode(fhevmError.code);
+      throw fhevmError;
     } finally {
       setIsDecrypting(false);
     }
-  }, []);
+  }, [client]);
 
   return {
     verifyDecryption,
     isDecrypting,
     error,
+    /** `ACL_DENIED` when the handles are not publicly decryptable (yet) */
+    errorCode,
+    userDecrypt,
+    /** `userDecrypt` state by handle */
+    decryptions,
+    clearDecryptions,
   };
 }
 
@@ -3,29 +3,66 @@
  */
 
 import { useState, useCallback } from 'react';
-import { createEncryptedInput } from '../core/index.js';
+import {
+  type EncryptedInputEntry,
+  type FheClearValue,
+  type FheType,
+  type OperationOptions,
+  toFhevmError,
+} from '../core/index.js';
+import { useFhevmClient } from './FhevmProvider.js';
 
 export function useEncrypt() {
+  const client = useFhevmClient();
   const [isEncrypting, setIsEncrypting] = useState(false);
   const [error, setError] = useState<string>('');
 
-  const encrypt = useCallback(async (contractAddress: string, userAddress: string, value: number) => {
+  const encrypt = useCallback(async <T extends FheType = 'euint32'>(
+    contractAddress: string,
+    userAddress: string,
+    value: FheClearValue<T>,
+    type?: T,
+    options?: OperationOptions
+  ) => {
     setIsEncrypting(true);
     setError('');
     
     try {
-      const result = await createEncryptedInput(contractAddress, userAddress, value);
+      const result = await client.createEncryptedInput<T>(contractAddress, userAddress, value, type, options);
       return result;
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Encryption failed');
-      throw err;
+      const fhevmError = toFhevmError(err);
+      setError(fhevmError.message || 'Encryption failed');
+      throw fhevmError;
     } finally {
       setIsEncrypting(false);
     }
-  }, []);
+  }, [client]);
+
+  const encryptBatch = useCallback(async (
+    contractAddress: string,
+    userAddress: string,
+    values: ReadonlyArray<number | bigint | EncryptedInputEntry>,
+    type?: Exclude<FheType, 'ebool' | 'eaddress'>,
+    options?: OperationOptions
+  ) => {
+    setIsEncrypting(true);
+    setError('');
+
+    try {
+      return await client.createBatchEncryptedInput(contractAddress, userAddress, values, type, options);
+    } catch (err) {
+      const fhevmError = toFhevmError(err);
+      setError(fhevmError.message || 'Encryption failed');
+      throw fhevmError;
+    } finally {
+      setIsEncrypting(false);
+    }
+  }, [client]);
 
   return {
     encrypt,
+    encryptBatch,
     isEncrypting,
     error,
   };
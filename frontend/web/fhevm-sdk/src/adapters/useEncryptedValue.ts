@@ -0,0 +1,160 @@
+/**
+ * Wagmi-like hook for an encrypted contract value
+ * Reads the handle from a view function, decrypts it, and reads it again
+ * whenever the contract emits one of the watched events
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { ethers } from 'ethers';
+import {
+  MissingSignerError,
+  toFhevmError,
+  watchContractEvent,
+  type ClearValue,
+  type FhevmError,
+} from '../core/index.js';
+import { useFhevmClient, useOptionalFhevmStatus } from './FhevmProvider.js';
+import { getDecryptionCache, publicDecryptionKey, userDecryptionKey } from './decryptionCache.js';
+
+export type EncryptedValueStatus = 'idle' | 'reading' | 'decrypting' | 'ready' | 'error';
+
+export interface UseEncryptedValueOptions {
+  /** Contract to read the handle from; the hook stays idle while it is null */
+  contract: ethers.BaseContract | null | undefined;
+  /** View function returning the handle */
+  getter: string;
+  args?: readonly unknown[];
+  /** `user` reveals the value to the signer only; `public` needs the handle to be publicly decryptable */
+  mode: 'user' | 'public';
+  /** Signs the user-decryption request; defaults to the client's signer */
+  signer?: ethers.Signer | null;
+  /** Events after which the handle is read again; every contract event by default, `false` for none */
+  watch?: readonly string[] | false;
+  /** Hold off reading and decrypting, e.g. until the user asks (default true) */
+  enabled?: boolean;
+}
+
+interface EncryptedValueState {
+  status: EncryptedValueStatus;
+  handle?: string;
+  /** Undefined while the handle is uninitialized (zero) */
+  value?: ClearValue;
+  error: FhevmError | null;
+}
+
+const IDLE: EncryptedValueState = { status: 'idle', error: null };
+
+function argsKey(args: readonly unknown[]) {
+  return JSON.stringify(args, (_, value) => typeof value === 'bigint' ? value.toString() : value);
+}
+
+export function useEncryptedValue({
+  contract,
+  getter,
+  args = [],
+  mode,
+  signer,
+  watch,
+  enabled = true,
+}: UseEncryptedValueOptions) {
+  const client = useFhevmClient();
+  // Inside a FhevmProvider, start once its instance is ready
+  const fhevmStatus = useOptionalFhevmStatus()?.status;
+  const [state, setState] = useState<EncryptedValueState>(IDLE);
+
+  const argsRef = useRef(args);
+  argsRef.current = args;
+  const key = argsKey(args);
+  const run = useRef(0);
+
+  const load = useCallback(async (refresh = false) => {
+    const id = ++run.current;
+    if (!contract || !enabled || !client.isInitialized) {
+      setState(IDLE);
+      return;
+    }
+    const isCurrent = () => id === run.current;
+
+    try {
+      setState((current) => ({ ...current, status: 'reading', error: null }));
+      const handle: string = await contract.getFunction(getter).staticCall(...argsRef.current);
+      if (!isCurrent()) return;
+      if (handle === ethers.ZeroHash) {
+        setState({ status: 'ready', handle, error: null });
+        return;
+      }
+
+      let cacheKey: string;
+      let decrypt: () => Promise<ClearValue>;
+      if (mode === 'user') {
+        const resolvedSigner = signer ?? client.getSigner();
+        if (!resolvedSigner) {
+          throw new MissingSignerError('A signer is required for user decryption. Pass { signer } or initialize the client with one.');
+        }
+        cacheKey = userDecryptionKey(await resolvedSigner.getAddress(), handle);
+        decrypt = async () => {
+          const clearValues = await client.decryptClearValues([handle], await contract.getAddress(), resolvedSigner);
+          return clearValues[handle];
+        };
+      } else {
+        cacheKey = publicDecryptionKey(handle);
+        decrypt = async () => (await client.publicDecryptV09([handle])).clearValues[handle];
+      }
+
+      const cache = getDecryptionCache(client);
+      if (!refresh && cache.has(cacheKey)) {
+        setState({ status: 'ready', handle, value: cache.get(cacheKey), error: null });
+        return;
+      }
+
+      setState({ status: 'decrypting', handle, error: null });
+      const value = await decrypt();
+      cache.set(cacheKey, value);
+      if (isCurrent()) setState({ status: 'ready', handle, value, error: null });
+    } catch (err) {
+      if (isCurrent()) setState((current) => ({ ...current, status: 'error', error: toFhevmError(err) }));
+    }
+  }, [client, contract, getter, mode, signer, enabled]);
+
+  const loadRef = useRef(load);
+  loadRef.current = load;
+
+  // `load` reads args through a ref and the instance through the client, so also
+  // reload when the args change or the provider's instance becomes ready
+  useEffect(() => {
+    load();
+    return () => {
+      // Results of a superseded run are dropped
+      run.current++;
+    };
+  }, [load, key, fhevmStatus]);
+
+  const watchKey = watch === false || watch?.length === 0 ? null : watch && JSON.stringify(watch);
+  useEffect(() => {
+    if (!contract || !enabled || watchKey === null) return;
+
+    const eventNames: string[] = [];
+    if (watchKey === undefined) {
+      contract.interface.forEachEvent((event) => eventNames.push(event.format('sighash')));
+    } else {
+      eventNames.push(...JSON.parse(watchKey));
+    }
+
+    const stops = eventNames.map((eventName) => watchContractEvent(contract, eventName, (log) => log, {
+      onEvent: () => loadRef.current(),
+      onError: (error) => client.logger.warn(`Watching ${eventName} failed:`, error),
+    }));
+    return () => stops.forEach((stop) => stop());
+  }, [client, contract, enabled, watchKey]);
+
+  /** Read the handle again and decrypt it, bypassing the cache */
+  const refresh = useCallback(() => load(true), [load]);
+
+  return {
+    value: state.value,
+    status: state.status,
+    handle: state.handle,
+    error: state.error,
+    refresh,
+  };
+}
@@ -1,31 +1,45 @@
 /**
  * Wagmi-like hook for FHEVM instance
+ * Inside <FhevmProvider> it reflects the shared instance; elsewhere it keeps its own state
  */
 
 import { useState, useCallback } from 'react';
-import { initializeFheInstance } from '../core/index.js';
+import { getDefaultClient, initializeFheInstance, type FhevmInitializeOptions } from '../core/index.js';
+import { useFhevmContext, useOptionalFhevmStatus, type FhevmStatus } from './FhevmProvider.js';
 
 export function useFhevm() {
+  const context = useFhevmContext();
+  const shared = useOptionalFhevmStatus();
   const [instance, setInstance] = useState<any>(null);
-  const [status, setStatus] = useState<'idle' | 'loading' | 'ready' | 'error'>('idle');
+  const [status, setStatus] = useState<FhevmStatus>('idle');
   const [error, setError] = useState<string>('');
 
-  const initialize = useCallback(async () => {
+  const initialize = useCallback(async (options?: FhevmInitializeOptions) => {
     setStatus('loading');
     setError('');
     
     try {
-      const fheInstance = await initializeFheInstance();
+      const fheInstance = await initializeFheInstance(options);
       setInstance(fheInstance);
       setStatus('ready');
-      console.log('✅ FHEVM initialized');
+      getDefaultClient().logger.info('FHEVM initialized');
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Unknown error');
       setStatus('error');
-      console.error('❌ FHEVM initialization failed:', err);
+      getDefaultClient().logger.error('FHEVM initialization failed:', err);
     }
   }, []);
 
+  if (context && shared) {
+    return {
+      instance: shared.instance,
+      status: shared.status,
+      error: shared.error?.message ?? '',
+      initialize: context.initialize,
+      isInitialized: shared.status === 'ready',
+    };
+  }
+
   return {
     instance,
     status,
@@ -0,0 +1,185 @@
+/**
+ * Wagmi-like hooks for transaction lifecycles
+ * Every transaction sent through `useTransaction` is recorded in one store per
+ * client, so toasts and history views render from the same states
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { ethers } from 'ethers';
+import {
+  isTransactionFinished,
+  trackTransaction,
+  type FhevmClient,
+  type TrackTransactionOptions,
+  type TransactionState,
+} from '../core/index.js';
+import { useFhevmClient } from './FhevmProvider.js';
+
+export type TrackedTransaction = TransactionState & {
+  id: number;
+  /** Shown in toasts and history, e.g. "Create policy" */
+  label?: string;
+  /** Epoch milliseconds of the last state change */
+  updatedAt: number;
+};
+
+type Listener = () => void;
+
+/**
+ * Transactions in the order they were started
+ */
+export class TransactionStore {
+  private transactions: TrackedTransaction[] = [];
+  private listeners = new Set<Listener>();
+  private controllers = new Map<number, AbortController>();
+  private nextId = 1;
+
+  getTransactions(): readonly TrackedTransaction[] {
+    return this.transactions;
+  }
+
+  subscribe(listener: Listener) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Send and track a transaction, recording each state
+   *
+   * @returns The final state
+   */
+  async track(
+    send: () => Promise<ethers.TransactionResponse>,
+    options: Omit<TrackTransactionOptions, 'signal'> & { label?: string } = {},
+    onState?: (transaction: TrackedTransaction) => void
+  ): Promise<TrackedTransaction> {
+    const { label, ...trackOptions } = options;
+    const id = this.nextId++;
+    const controller = new AbortController();
+    this.controllers.set(id, controller);
+
+    let latest!: TrackedTransaction;
+    try {
+      await trackTransaction(send, (state) => {
+        latest = { ...state, id, label, updatedAt: Date.now() };
+        this.put(latest);
+        onState?.(latest);
+      }, { ...trackOptions, signal: controller.signal });
+      return latest;
+    } finally {
+      this.controllers.delete(id);
+    }
+  }
+
+  /**
+   * Stop tracking a transaction; once submitted it may still be mined
+   */
+  cancel(id: number) {
+    this.controllers.get(id)?.abort();
+  }
+
+  /**
+   * Forget finished transactions
+   */
+  clearFinished() {
+    this.transactions = this.transactions.filter((transaction) => !isTransactionFinished(transaction));
+    this.emit();
+  }
+
+  private put(transaction: TrackedTransaction) {
+    const index = this.transactions.findIndex(({ id }) => id === transaction.id);
+    this.transactions = index === -1
+      ? [...this.transactions, transaction]
+      : this.transactions.map((existing, i) => i === index ? transaction : existing);
+    this.emit();
+  }
+
+  private emit() {
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+const stores = new WeakMap<FhevmClient, TransactionStore>();
+
+/**
+ * The transaction store shared by every hook on `client`
+ */
+export function getTransactionStore(client: FhevmClient): TransactionStore {
+  let store = stores.get(client);
+  if (!store) {
+    store = new TransactionStore();
+    stores.set(client, store);
+  }
+  return store;
+}
+
+export type UseTransactionOptions = Omit<TrackTransactionOptions, 'signal'> & { label?: string };
+
+export function useTransaction(options: UseTransactionOptions = {}) {
+  const store = getTransactionStore(useFhevmClient());
+  const [transaction, setTransaction] = useState<TrackedTransaction | null>(null);
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const currentId = useRef<number | null>(null);
+  // Bumped by `execute` and `reset`, so a superseded transaction no longer updates this hook
+  const runs = useRef(0);
+
+  /**
+   * Send with `send`, e.g. `() => contract.createBusinessData(...)`, and follow it
+   * until it is confirmed, reverted, replaced or dropped
+   */
+  const execute = useCallback(async (
+    send: () => Promise<ethers.TransactionResponse>,
+    overrides?: UseTransactionOptions
+  ): Promise<TrackedTransaction> => {
+    const run = ++runs.current;
+    return store.track(send, { ...optionsRef.current, ...overrides }, (next) => {
+      if (run !== runs.current) return;
+      currentId.current = next.id;
+      setTransaction(next);
+    });
+  }, [store]);
+
+  const cancel = useCallback(() => {
+    if (currentId.current !== null) store.cancel(currentId.current);
+  }, [store]);
+
+  const reset = useCallback(() => {
+    runs.current++;
+    currentId.current = null;
+    setTransaction(null);
+  }, []);
+
+  return {
+    execute,
+    cancel,
+    reset,
+    transaction,
+    status: transaction?.status ?? 'idle',
+    isPending: transaction !== null && !isTransactionFinished(transaction),
+  };
+}
+
+/**
+ * All transactions sent through `useTransaction`, re-rendered on every state change
+ */
+export function useTransactionHistory() {
+  const store = getTransactionStore(useFhevmClient());
+  const [transactions, setTransactions] = useState(() => store.getTransactions());
+
+  useEffect(() => {
+    setTransactions(store.getTransactions());
+    return store.subscribe(() => setTransactions(store.getTransactions()));
+  }, [store]);
+
+  const cancel = useCallback((id: number) => store.cancel(id), [store]);
+  const clearFinished = useCallback(() => store.clearFinished(), [store]);
+
+  return {
+    transactions,
+    cancel,
+    clearFinished,
+  };
+}
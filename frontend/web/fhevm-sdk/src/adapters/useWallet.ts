@@ -1,10 +1,17 @@
 /**
  * Wagmi-like hook for wallet connection
+ * Pass wagmi's wallet client to mirror its connection instead of `window.ethereum`
  */
 
 import { useState, useCallback, useEffect } from 'react';
+import { getDefaultClient, type ViemWalletClient } from '../core/index.js';
 
-export function useWallet() {
+/**
+ * @param walletClient - `useWalletClient()` data; connecting and disconnecting
+ *   are then up to wagmi, and `connect`/`disconnect` do nothing
+ */
+export function useWallet(walletClient?: ViemWalletClient | null) {
+  const managed = walletClient !== undefined;
   const [address, setAddress] = useState<string>('');
   const [isConnected, setIsConnected] = useState(false);
   const [chainId, setChainId] = useState<number>(0);
@@ -13,12 +20,12 @@ export function useWallet() {
 
   // Listen for chain changes
   useEffect(() => {
-    if (!window.ethereum) return;
+    if (managed || !window.ethereum) return;
 
     const handleChainChanged = async (chainIdHex: string) => {
       const newChainId = parseInt(chainIdHex, 16);
       setChainId(newChainId);
-      console.log('🔄 Chain changed to:', newChainId);
+      getDefaultClient().logger.debug(`Chain changed to ${newChainId}`);
     };
 
     const handleAccountsChanged = (accounts: string[]) => {
@@ -39,9 +46,10 @@ export function useWallet() {
       window.ethereum?.removeListener('chainChanged', handleChainChanged);
       window.ethereum?.removeListener('accountsChanged', handleAccountsChanged);
     };
-  }, []);
+  }, [managed]);
 
   const connect = useCallback(async () => {
+    if (managed) return;
     if (!window.ethereum) {
       setError('MetaMask not found. Please install MetaMask.');
       return;
@@ -59,22 +67,35 @@ export function useWallet() {
       const chainId = await window.ethereum.request({ method: 'eth_chainId' });
       setChainId(parseInt(chainId, 16));
 
-      console.log('✅ Wallet connected:', account);
+      getDefaultClient().logger.info(`Wallet connected: ${account}`);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Connection failed');
-      console.error('❌ Wallet connection failed:', err);
+      getDefaultClient().logger.error('Wallet connection failed:', err);
     } finally {
       setIsConnecting(false);
     }
-  }, []);
+  }, [managed]);
 
   const disconnect = useCallback(() => {
+    if (managed) return;
     setAddress('');
     setIsConnected(false);
     setChainId(0);
     setError('');
-    console.log('🔌 Wallet disconnected');
-  }, []);
+    getDefaultClient().logger.info('Wallet disconnected');
+  }, [managed]);
+
+  if (managed) {
+    return {
+      address: walletClient?.account?.address ?? '',
+      isConnected: !!walletClient?.account,
+      chainId: walletClient?.chain?.id ?? 0,
+      isConnecting: false,
+      error: '',
+      connect,
+      disconnect,
+    };
+  }
 
   return {
     address,
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import {
+  encryptedTypeToFheType,
+  externalTypeToFheType,
+  findFunctionFragment,
+  getFunctionParamSlots,
+  toAbiFragments,
+  type AbiFragment,
+} from './abi.js';
+
+const ABI = [
+  {
+    type: 'function',
+    name: 'createBusinessData',
+    inputs: [
+      { name: 'businessId', type: 'string', internalType: 'string' },
+      { name: 'encryptedValue', type: 'bytes32', internalType: 'externalEuint32' },
+      { name: 'inputProof', type: 'bytes', internalType: 'bytes' },
+      { name: 'publicValue1', type: 'uint256', internalType: 'uint256' },
+    ],
+    outputs: [],
+  },
+  {
+    type: 'function',
+    name: 'setProfile',
+    inputs: [
+      { name: 'age', type: 'bytes32', internalType: 'externalEuint8' },
+      { name: 'verified', type: 'bytes32', internalType: 'externalEbool' },
+      { name: 'proof', type: 'bytes', internalType: 'bytes' },
+      { name: 'payload', type: 'bytes', internalType: 'bytes' },
+    ],
+    outputs: [],
+  },
+  { type: 'function', name: 'transfer', inputs: [{ name: 'to', type: 'address' }], outputs: [] },
+  { type: 'function', name: 'transfer', inputs: [{ name: 'to', type: 'address' }, { name: 'amount', type: 'uint256' }], outputs: [] },
+  { type: 'event', name: 'Transfer', inputs: [] },
+] as const satisfies readonly AbiFragment[];
+
+describe('getFunctionParamSlots', () => {
+  it('classifies encrypted, proof and plain inputs', () => {
+    expect(getFunctionParamSlots(findFunctionFragment(ABI, 'createBusinessData'))).toEqual([
+      { kind: 'plain', name: 'businessId', index: 0, type: 'string' },
+      { kind: 'encrypted', name: 'encryptedValue', index: 1, fheType: 'euint32' },
+      { kind: 'proof', name: 'inputProof', index: 2 },
+      { kind: 'plain', name: 'publicValue1', index: 3, type: 'uint256' },
+    ]);
+  });
+
+  it('shares one proof between encrypted inputs and keeps later bytes plain', () => {
+    expect(getFunctionParamSlots(findFunctionFragment(ABI, 'setProfile'))).toEqual([
+      { kind: 'encrypted', name: 'age', index: 0, fheType: 'euint8' },
+      { kind: 'encrypted', name: 'verified', index: 1, fheType: 'ebool' },
+      { kind: 'proof', name: 'proof', index: 2 },
+      { kind: 'plain', name: 'payload', index: 3, type: 'bytes' },
+    ]);
+  });
+
+  it('treats bytes without a preceding encrypted input as plain', () => {
+    const fragment: AbiFragment = {
+      type: 'function',
+      name: 'store',
+      inputs: [
+        { name: 'data', type: 'bytes' },
+        { name: 'key', type: 'bytes32', internalType: 'bytes32' },
+      ],
+    };
+    expect(getFunctionParamSlots(fragment)).toEqual([
+      { kind: 'plain', name: 'data', index: 0, type: 'bytes' },
+      { kind: 'plain', name: 'key', index: 1, type: 'bytes32' },
+    ]);
+  });
+
+  it('names unnamed inputs by position', () => {
+    const fragment: AbiFragment = {
+      type: 'function',
+      name: 'anonymous',
+      inputs: [
+        { name: '', type: 'bytes32', internalType: 'externalEuint64' },
+        { name: '', type: 'bytes' },
+      ],
+    };
+    expect(getFunctionParamSlots(fragment).map((slot) => slot.name)).toEqual(['arg0', 'arg1']);
+  });
+
+  it('returns no slots for functions without inputs', () => {
+    expect(getFunctionParamSlots({ type: 'function', name: 'reset' })).toEqual([]);
+  });
+});
+
+describe('findFunctionFragment', () => {
+  it('requires a signature for overloaded functions', () => {
+    expect(() => findFunctionFragment(ABI, 'transfer')).toThrow(/overloaded; use one of: transfer\(address\), transfer\(address,uint256\)/);
+    expect(findFunctionFragment(ABI, 'transfer(address, uint256)').inputs).toHaveLength(2);
+  });
+
+  it('throws for unknown functions and ignores events', () => {
+    expect(() => findFunctionFragment(ABI, 'Transfer')).toThrow(/not found/);
+  });
+
+  it('accepts artifacts', () => {
+    expect(toAbiFragments({ abi: ABI })).toBe(ABI);
+    expect(toAbiFragments(ABI)).toBe(ABI);
+  });
+});
+
+describe('FHE type lookups', () => {
+  it('maps external and handle internal types', () => {
+    expect(externalTypeToFheType('externalEaddress')).toBe('eaddress');
+    expect(externalTypeToFheType('euint32')).toBeUndefined();
+    expect(encryptedTypeToFheType('euint256')).toBe('euint256');
+    expect(encryptedTypeToFheType('externalEuint256')).toBeUndefined();
+    expect(encryptedTypeToFheType('toString')).toBeUndefined();
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * FHEVM ABI Inspection - Universal SDK
+ * Finds encrypted input parameters from the `internalType` that Solidity
+ * writes into the ABI (`externalEuint32` is encoded as a plain `bytes32`)
+ */
+
+import { FHE_TYPE_IDS } from './handles.js';
+import type { FheDecryptedValue } from './decryption.js';
+import type { FheClearValue, FheType } from './encryption.js';
+
+export interface AbiParameter {
+  name: string;
+  type: string;
+  internalType?: string;
+  indexed?: boolean;
+  components?: readonly AbiParameter[];
+}
+
+export interface AbiFragment {
+  type: string;
+  name?: string;
+  inputs?: readonly AbiParameter[];
+  outputs?: readonly AbiParameter[];
+  stateMutability?: string;
+}
+
+/**
+ * How one function argument is filled in by `FhevmContract.call`
+ */
+export type FunctionParamSlot =
+  | { kind: 'encrypted'; name: string; index: number; fheType: FheType }
+  | { kind: 'proof'; name: string; index: number }
+  | { kind: 'plain'; name: string; index: number; type: string };
+
+const EXTERNAL_TYPES = {
+  externalEbool: 'ebool',
+  externalEuint8: 'euint8',
+  externalEuint16: 'euint16',
+  externalEuint32: 'euint32',
+  externalEuint64: 'euint64',
+  externalEuint128: 'euint128',
+  externalEuint256: 'euint256',
+  externalEaddress: 'eaddress',
+} as const satisfies Record<string, FheType>;
+
+type ExternalFheTypes = typeof EXTERNAL_TYPES;
+
+/**
+ * FHE type behind an `externalEuintX` / `externalEbool` / `externalEaddress` internal type
+ */
+export function externalTypeToFheType(internalType?: string): FheType | undefined {
+  return internalType ? (EXTERNAL_TYPES as Record<string, FheType>)[internalType] : undefined;
+}
+
+/**
+ * Function `K` of an `as const` ABI, e.g. a typechain factory's `abi`.
+ * `never` when the ABI is not literal or has no such function.
+ */
+export type AbiFunction<A extends readonly AbiFragment[], K extends string> = Extract<A[number], { type: 'function'; name: K }>;
+
+type EncryptedParamType<P> = P extends { type: 'bytes32'; internalType: infer I extends keyof ExternalFheTypes }
+  ? ExternalFheTypes[I]
+  : never;
+
+type Head<P extends readonly unknown[]> = P extends readonly [infer H, ...unknown[]] ? H : unknown;
+type Tail<P extends readonly unknown[]> = P extends readonly [unknown, ...infer R] ? R : P;
+
+/**
+ * `[name, value]` for each input `FhevmContract.call` takes, mirroring
+ * `getFunctionParamSlots`: encrypted inputs take their clear value, proofs
+ * are dropped, plain inputs take the matching type from `Params`.
+ */
+type CallEntries<Inputs, Params extends readonly unknown[], ExpectsProof extends boolean = false> =
+  Inputs extends readonly [infer Input extends AbiParameter, ...infer Rest]
+    ? [EncryptedParamType<Input>] extends [never]
+      ? ExpectsProof extends true
+        ? Input extends { type: 'bytes' }
+          ? CallEntries<Rest, Tail<Params>, false>
+          : [[Input['name'], Head<Params>], ...CallEntries<Rest, Tail<Params>, ExpectsProof>]
+        : [[Input['name'], Head<Params>], ...CallEntries<Rest, Tail<Params>, ExpectsProof>]
+      : [[Input['name'], FheClearValue<EncryptedParamType<Input>>], ...CallEntries<Rest, Tail<Params>, true>]
+    : [];
+
+/**
+ * Arguments of `FhevmContract.call` for an ABI function: by name, or
+ * positionally without the proof parameters. `Params` types the plain inputs.
+ */
+export type AbiCallArgs<F extends AbiFragment, Params extends readonly unknown[] = unknown[]> =
+  F extends { inputs: infer Inputs }
+    ? CallEntries<Inputs, Params> extends infer E extends readonly [string, unknown][]
+      ? { [P in E[number] as P[0]]: P[1] } | { [I in keyof E]: E[I][1] }
+      : never
+    : never;
+
+/**
+ * FHE type of a handle parameter such as `euint32` or `ebool`, as found in event and return ABIs
+ */
+export function encryptedTypeToFheType(internalType?: string): FheType | undefined {
+  return internalType && Object.prototype.hasOwnProperty.call(FHE_TYPE_IDS, internalType) ? (internalType as FheType) : undefined;
+}
+
+/**
+ * Accept both a bare ABI array and a Hardhat/Foundry artifact `{ abi }`
+ */
+export function toAbiFragments(abi: readonly AbiFragment[] | { abi: readonly AbiFragment[] }): readonly AbiFragment[] {
+  return Array.isArray(abi) ? abi : (abi as { abi: readonly AbiFragment[] }).abi;
+}
+
+/**
+ * `name(type1,type2)` as ethers expects for overloaded functions
+ */
+export function functionSignature(fragment: AbiFragment) {
+  return `${fragment.name}(${(fragment.inputs ?? []).map((input) => input.type).join(',')})`;
+}
+
+/**
+ * Find a function by name, or by full signature when the name is overloaded
+ */
+export function findFunctionFragment(abi: readonly AbiFragment[], nameOrSignature: string): AbiFragment {
+  const functions = abi.filter((fragment) => fragment.type === 'function');
+  const matches = nameOrSignature.includes('(')
+    ? functions.filter((fragment) => functionSignature(fragment) === nameOrSignature.replace(/\s+/g, ''))
+    : functions.filter((fragment) => fragment.name === nameOrSignature);
+
+  if (matches.length === 0) {
+    throw new Error(`Function ${nameOrSignature} not found in ABI`);
+  }
+  if (matches.length > 1) {
+    throw new Error(`Function ${nameOrSignature} is overloaded; use one of: ${matches.map(functionSignature).join(', ')}`);
+  }
+  return matches[0];
+}
+
+/**
+ * Classify each input of a function. A `bytes` input following one or more
+ * encrypted inputs carries their proof; all encrypted inputs share one proof.
+ */
+export function getFunctionParamSlots(fragment: AbiFragment): FunctionParamSlot[] {
+  let expectsProof = false;
+
+  return (fragment.inputs ?? []).map((input, index): FunctionParamSlot => {
+    const name = input.name || `arg${index}`;
+    const fheType = input.type === 'bytes32' ? externalTypeToFheType(input.internalType) : undefined;
+    if (fheType) {
+      expectsProof = true;
+      return { kind: 'encrypted', name, index, fheType };
+    }
+    if (input.type === 'bytes' && expectsProof) {
+      expectsProof = false;
+      return { kind: 'proof', name, index };
+    }
+    return { kind: 'plain', name, index, type: input.type };
+  });
+}
+
+/**
+ * Find an event by name
+ */
+export function findEventFragment(abi: readonly AbiFragment[], name: string): AbiFragment | undefined {
+  return abi.find((fragment) => fragment.type === 'event' && fragment.name === name);
+}
+
+/**
+ * Event `K` of an `as const` ABI; `never` when the ABI is not literal or has no such event
+ */
+export type AbiEvent<A extends readonly AbiFragment[], K extends string> = Extract<A[number], { type: 'event'; name: K }>;
+
+/**
+ * Decoded value of a Solidity type, as typechain and ethers return it
+ */
+type AbiValue<T extends string> =
+  T extends `${infer Element}[${string}]` ? AbiValue<Element>[] :
+  T extends `uint${string}` | `int${string}` ? bigint :
+  T extends 'bool' ? boolean :
+  T extends 'tuple' ? unknown :
+  string;
+
+/**
+ * Event arguments by name
+ */
+export type AbiEventArgs<F extends AbiFragment> = F extends { inputs: infer Inputs extends readonly AbiParameter[] }
+  ? { [P in Inputs[number] as P['name']]: AbiValue<P['type']> }
+  : never;
+
+/**
+ * Clear values of an event's encrypted arguments (`euintX`, `ebool`, `eaddress`) by name
+ */
+export type AbiEventClearValues<F extends AbiFragment> = F extends { inputs: infer Inputs extends readonly AbiParameter[] }
+  ? {
+    [P in Inputs[number] as P['internalType'] extends FheType ? P['name'] : never]:
+      FheDecryptedValue<Extract<P['internalType'], FheType>>;
+  }
+  : never;
@@ -0,0 +1,105 @@
+/**
+ * FHEVM Access Control - Universal SDK
+ * Reads the host chain's ACL contract, so decryption requests the relayer
+ * would refuse fail early with AclDeniedError
+ */
+
+import { ethers } from 'ethers';
+import { AclDeniedError, TimeoutError } from './errors.js';
+import { sleep, type OperationOptions } from './retry.js';
+
+/**
+ * Read-only subset of @fhevm/solidity's IACL
+ */
+export const ACL_ABI = [
+  'function isAllowed(bytes32 handle, address account) view returns (bool)',
+  'function isAllowedForDecryption(bytes32 handle) view returns (bool)',
+] as const;
+
+export interface AclWaitOptions extends Pick<OperationOptions, 'signal' | 'timeoutMs'> {
+  /** Delay between ACL reads in ms (default 4000) */
+  pollIntervalMs?: number;
+}
+
+const DEFAULT_POLL_INTERVAL_MS = 4_000;
+
+export function getAclContract(aclAddress: string, runner: ethers.ContractRunner): ethers.Contract {
+  return new ethers.Contract(aclAddress, ACL_ABI, runner);
+}
+
+/**
+ * User decryption needs both the user and the contract on the handle's ACL
+ */
+export async function isAllowedForUserDecryption(
+  acl: ethers.Contract,
+  handle: string,
+  userAddress: string,
+  contractAddress: string
+): Promise<boolean> {
+  if (ethers.getAddress(userAddress) === ethers.getAddress(contractAddress)) return false;
+  const [userAllowed, contractAllowed] = await Promise.all([
+    acl.isAllowed(handle, userAddress) as Promise<boolean>,
+    acl.isAllowed(handle, contractAddress) as Promise<boolean>,
+  ]);
+  return userAllowed && contractAllowed;
+}
+
+/**
+ * Throw AclDeniedError for the first handle the user cannot decrypt through `contractAddress`
+ */
+export async function requireUserDecryptAccess(
+  acl: ethers.Contract,
+  handles: string[],
+  userAddress: string,
+  contractAddress: string
+) {
+  const allowed = await Promise.all(
+    handles.map((handle) => isAllowedForUserDecryption(acl, handle, userAddress, contractAddress))
+  );
+  const denied = handles.find((_, i) => !allowed[i]);
+  if (denied) {
+    throw new AclDeniedError(`${userAddress} is not allowed to decrypt handle ${denied} through ${contractAddress}.`, { handle: denied });
+  }
+}
+
+/**
+ * Whether `FHE.makePubliclyDecryptable` was called for the handle
+ */
+export async function isAllowedForPublicDecryption(acl: ethers.Contract, handle: string): Promise<boolean> {
+  return acl.isAllowedForDecryption(handle);
+}
+
+/**
+ * Throw AclDeniedError for the first handle that is not publicly decryptable
+ */
+export async function requirePublicDecryptAccess(acl: ethers.Contract, handles: string[]) {
+  const allowed = await Promise.all(handles.map((handle) => isAllowedForPublicDecryption(acl, handle)));
+  const denied = handles.find((_, i) => !allowed[i]);
+  if (denied) {
+    throw new AclDeniedError(`Handle ${denied} is not marked publicly decryptable.`, { handle: denied });
+  }
+}
+
+/**
+ * Poll the ACL until every handle is publicly decryptable, e.g. while the
+ * transaction calling `makePubliclyDecryptable` is being mined.
+ * Rejects with TimeoutError after `timeoutMs` (no limit by default).
+ */
+export async function waitForPublicDecryptAccess(acl: ethers.Contract, handles: string[], options: AclWaitOptions = {}) {
+  const pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+  const deadline = options.timeoutMs ? Date.now() + options.timeoutMs : Infinity;
+  let pending = [...handles];
+
+  while (true) {
+    const allowed = await Promise.all(pending.map((handle) => isAllowedForPublicDecryption(acl, handle)));
+    pending = pending.filter((_, i) => !allowed[i]);
+    if (pending.length === 0) return;
+
+    if (Date.now() + pollIntervalMs > deadline) {
+      throw new TimeoutError(`Handle ${pending[0]} did not become publicly decryptable within ${options.timeoutMs}ms`, {
+        timeoutMs: options.timeoutMs,
+      });
+    }
+    await sleep(pollIntervalMs, options.signal);
+  }
+}
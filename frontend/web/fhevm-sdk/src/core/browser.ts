@@ -0,0 +1,94 @@
+/**
+ * Browser Platform - Universal SDK
+ * Creates the relayer instance from the npm bundle with the wallet's
+ * EIP-1193 provider, inside a Web Worker when the client asks for one
+ */
+
+import type { Eip1193Provider, FhevmPlatform, FhevmPlatformContext } from './client.js';
+import { selectNetwork, toInstanceConfig, type FhevmNetworkConfig } from './networks.js';
+import { initRelayerSdk, loadRelayerSdk, type RelayerSdk } from './relayerSdk.js';
+import { createFhevmWorker, createWorkerFhevmInstance, isWorkerSupported } from './worker.js';
+import { toFhevmError } from './errors.js';
+
+/**
+ * Resolve the client's `worker` option to a running Worker
+ */
+function spawnWorker(option: FhevmPlatformContext['worker']): Worker {
+  if (option === true) return createFhevmWorker();
+  if (typeof option === 'string' || option instanceof URL) return createFhevmWorker(option);
+  if (typeof option === 'function') return option();
+  return option as Worker;
+}
+
+/**
+ * Initialize the instance inside a Web Worker. Returns null when workers
+ * are unavailable or fail to start, so the caller can use the main thread.
+ */
+async function createInWorker(context: FhevmPlatformContext, provider: Eip1193Provider, network: FhevmNetworkConfig) {
+  const { logger, signal } = context;
+  if (!isWorkerSupported()) {
+    logger.info('Web Workers unavailable, running FHEVM on the main thread');
+    return null;
+  }
+
+  let worker: Worker | undefined;
+  try {
+    const spawned = spawnWorker(context.worker);
+    worker = spawned;
+    const config = { ...toInstanceConfig(network), ...context.config };
+    const instance = await context.run(
+      () => createWorkerFhevmInstance({ worker: spawned, config, provider, relayerSdk: context.relayerSdk }),
+      { signal, retry: false }
+    );
+    logger.info(`FHEVM instance running in a Web Worker for ${network.name}`);
+    return instance;
+  } catch (err) {
+    worker?.terminate();
+    if (signal?.aborted) throw toFhevmError(err);
+    logger.warn('FHEVM worker failed to start, falling back to the main thread:', err);
+    return null;
+  }
+}
+
+/**
+ * Initialize the instance on the main thread
+ */
+async function createOnMainThread(context: FhevmPlatformContext, provider: Eip1193Provider, network: FhevmNetworkConfig) {
+  const { logger, signal } = context;
+  let sdk: RelayerSdk;
+  try {
+    // A failed module import is cached by the browser, so it is not retried
+    sdk = await context.run(() => loadRelayerSdk(context.relayerSdk), { signal, retry: false });
+    await context.run(() => initRelayerSdk(sdk, context.relayerSdk), { signal });
+    logger.info('FHEVM SDK initialized');
+  } catch (err) {
+    logger.error('FHEVM SDK loading failed:', err);
+    throw toFhevmError(err);
+  }
+
+  const config = { ...toInstanceConfig(network), ...context.config, network: provider };
+  try {
+    return await context.run(() => sdk.createInstance(config), { signal });
+  } catch (err) {
+    logger.error('FHEVM browser instance creation failed:', err);
+    throw toFhevmError(err);
+  }
+}
+
+export const browserPlatform: FhevmPlatform = {
+  name: 'browser',
+
+  async createInstance(context) {
+    const provider = context.provider ?? (typeof window !== 'undefined' ? window.ethereum : undefined);
+    if (!provider) {
+      throw new Error('No EIP-1193 provider found. Pass { provider } or install a browser wallet.');
+    }
+
+    const network = await selectNetwork(context.network, async () =>
+      Number(await provider.request({ method: 'eth_chainId' }))
+    );
+    const workerInstance = context.worker ? await createInWorker(context, provider, network) : null;
+    const instance = workerInstance ?? await createOnMainThread(context, provider, network);
+    return { instance, network, provider };
+  },
+};
@@ -0,0 +1,74 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { FhevmClient, type FhevmPlatform } from './client.js';
+import { SEPOLIA_NETWORK } from './networks.js';
+
+// No RPC endpoint, so the client skips the ACL pre-check
+const NETWORK = { ...SEPOLIA_NETWORK, rpcUrl: undefined };
+
+const HANDLE = ethers.concat([
+  '0x' + '1a'.repeat(21),
+  ethers.toBeHex(0, 1),
+  ethers.toBeHex(NETWORK.chainId, 8),
+  ethers.toBeHex(4, 1),
+  ethers.toBeHex(0, 1),
+]);
+
+const SIGNATURE = '0x' + '11'.repeat(65);
+
+function decryptionResult(decryptionProof?: string) {
+  return {
+    clearValues: { [HANDLE]: 42n },
+    abiEncodedClearValues: ethers.AbiCoder.defaultAbiCoder().encode(['uint32'], [42n]),
+    decryptionProof,
+  };
+}
+
+async function clientReturning(result: unknown) {
+  const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+  const platform: FhevmPlatform = {
+    name: 'fake',
+    createInstance: async () => ({ instance: { publicDecrypt: vi.fn(async () => result) }, network: NETWORK }),
+  };
+  const client = new FhevmClient({ platform, logger, retry: false });
+  await client.initialize();
+  return { client, logger };
+}
+
+describe('FhevmClient.publicDecryptV09', () => {
+  it('marks a result with a well-formed proof verifiable', async () => {
+    const proof = ethers.solidityPacked(['uint8', 'bytes', 'bytes'], [1, SIGNATURE, '0x00']);
+    const { client, logger } = await clientReturning(decryptionResult(proof));
+
+    const result = await client.publicDecryptV09([HANDLE]);
+
+    expect(result.verifiable).toBe(true);
+    expect(result.decryptionProof).toBe(proof);
+    expect(logger.warn).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ['missing', undefined],
+    ['empty', '0x'],
+    ['not hex', 'proof'],
+    ['without signatures', '0x00'],
+    ['truncated', '0x02' + '11'.repeat(65)],
+  ])('does not mark a result with a %s proof verifiable', async (_label, proof) => {
+    const { client, logger } = await clientReturning(decryptionResult(proof));
+
+    const result = await client.publicDecryptV09([HANDLE]);
+
+    expect(result).toEqual({ ...decryptionResult('0x'), verifiable: false });
+    expect(logger.warn).toHaveBeenCalledTimes(1);
+  });
+
+  it('encodes a pre-v0.9 handle map without a proof', async () => {
+    const { client } = await clientReturning({ [HANDLE]: 42n });
+
+    const result = await client.publicDecryptV09([HANDLE]);
+
+    expect(result.verifiable).toBe(false);
+    expect(result.clearValues).toEqual({ [HANDLE]: 42n });
+    expect(result.decryptionProof).toBe('0x');
+  });
+});
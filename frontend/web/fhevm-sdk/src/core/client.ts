@@ -0,0 +1,683 @@
+/**
+ * FHEVM Client - Universal SDK
+ * Owns one relayer instance with its config, provider and logger,
+ * so several chains or contracts can run side by side in one process
+ */
+
+import { ethers } from "ethers";
+import {
+  encryptEntries,
+  type BatchEncryptedInput,
+  type EncryptedInputEntry,
+  type ExternalHandle,
+  type FheClearValue,
+  type FheType,
+  type TypedEncryptedInput,
+} from "./encryption.js";
+import { HARDHAT_NETWORK, requireNetwork, type FhevmNetworkConfig } from "./networks.js";
+import { createMockFhevmInstance, type MockUtilsModule } from "./mock.js";
+import type { RelayerSdkOptions } from "./relayerSdk.js";
+import { DecryptionSessionManager, type DecryptionSessionOptions } from "./sessions.js";
+import { formatHandle, getHandleFheType, validateHandle, type ParsedHandle } from "./handles.js";
+import {
+  encodeClearValues,
+  toAbiValue,
+  type ClearValue,
+  type PublicDecryptOptions,
+  type PublicDecryptionResult,
+} from "./decryption.js";
+import {
+  getAclContract,
+  isAllowedForPublicDecryption,
+  isAllowedForUserDecryption,
+  requirePublicDecryptAccess,
+  requireUserDecryptAccess,
+  waitForPublicDecryptAccess,
+  type AclWaitOptions,
+} from "./acl.js";
+import { isFhevmError, MissingProviderError, MissingSignerError, NotInitializedError, toFhevmError } from "./errors.js";
+import { getKmsSignerSet, getKmsVerifierContract, assertKmsSignatures, parseDecryptionProof, type KmsSignerSet } from "./kms.js";
+import { createLogger, type FhevmLogger } from "./logger.js";
+import { DEFAULT_TIMEOUT_MS, withRetry, type OperationOptions, type RetryPolicy } from "./retry.js";
+
+export interface Eip1193Provider {
+  request: (args: { method: string; params?: any[] }) => Promise<any>;
+  on?: (event: string, callback: (...args: any[]) => void) => void;
+  removeListener?: (event: string, callback: (...args: any[]) => void) => void;
+}
+
+export type FhevmMode = 'relayer' | 'mock';
+
+/**
+ * What a platform gets from the client to create an instance
+ */
+export interface FhevmPlatformContext {
+  /** Requested network, if any; resolve it with `selectNetwork` */
+  network?: number | FhevmNetworkConfig;
+  /** Raw overrides merged over the network's relayer config */
+  config: Record<string, any>;
+  provider?: Eip1193Provider;
+  rpcUrl?: string;
+  signer?: ethers.Signer;
+  relayerSdk: RelayerSdkOptions;
+  worker: boolean | string | URL | Worker | (() => Worker);
+  logger: FhevmLogger;
+  /** Signal of the `initialize()` call */
+  signal?: AbortSignal;
+  /** Run a relayer call under the client's timeout and retry policy */
+  run<T>(operation: (signal: AbortSignal) => Promise<T>, options?: OperationOptions): Promise<T>;
+}
+
+/**
+ * Creates relayer instances for one environment. The browser and Node.js
+ * entry points each install theirs as the default.
+ */
+export interface FhevmPlatform {
+  name: string;
+  /** `provider` is the EIP-1193 provider the instance talks to; the client reads the ACL through it */
+  createInstance(context: FhevmPlatformContext): Promise<{ instance: any; network: FhevmNetworkConfig; provider?: Eip1193Provider }>;
+}
+
+let defaultPlatform: FhevmPlatform | undefined;
+
+/**
+ * Platform used by clients created without one; set by the package entry point
+ */
+export function setDefaultPlatform(platform: FhevmPlatform) {
+  defaultPlatform = platform;
+}
+
+export interface FhevmClientOptions {
+  /**
+   * `relayer` (default) talks to the Zama relayer; `mock` runs against the
+   * @fhevm/hardhat-plugin mock coprocessor on a local node, fully offline
+   */
+  mode?: FhevmMode;
+  /** Environment backend; defaults to the one installed by the entry point you imported */
+  platform?: FhevmPlatform;
+  /**
+   * Network to use: a chain id from the registry or a full config.
+   * Defaults to the chain reported by the provider.
+   */
+  network?: number | FhevmNetworkConfig;
+  /** Raw overrides merged over the network's relayer config */
+  config?: Record<string, any>;
+  /** EIP-1193 provider; defaults to `window.ethereum` in the browser */
+  provider?: Eip1193Provider;
+  /** JSON-RPC endpoint used by the Node.js path */
+  rpcUrl?: string;
+  /**
+   * Wallet or Signer for the Node.js path; provides accounts, signatures and
+   * transactions, and is the default signer for user decryption
+   */
+  signer?: ethers.Signer;
+  /** Duration, start time and storage of cached user-decryption authorizations */
+  decryptionSessions?: DecryptionSessionOptions;
+  /** Mock mode in browser builds: pass `await import('@fhevm/mock-utils')`, which the SDK does not import for bundlers */
+  mockUtils?: MockUtilsModule;
+  /** Browser only: WASM asset URLs and integrity hashes, CDN fallback */
+  relayerSdk?: RelayerSdkOptions;
+  /**
+   * Host the relayer instance in a Web Worker (browser only). `true` spawns
+   * the SDK's worker; pass a script URL, a Worker or a factory to control how it is loaded.
+   * Falls back to the main thread when workers are unavailable or fail to start.
+   */
+  worker?: boolean | string | URL | Worker | (() => Worker);
+  /** Default per-attempt limit for relayer calls in ms (default 60000; 0 disables it) */
+  timeoutMs?: number;
+  /** Default retry policy for relayer calls; `false` disables retries */
+  retry?: Partial<RetryPolicy> | false;
+  /** Defaults to `createLogger()`: redacting, silent in production */
+  logger?: FhevmLogger;
+}
+
+export type FhevmInitializeOptions = Omit<FhevmClientOptions, 'logger' | 'decryptionSessions'> & {
+  /** Cancels SDK loading and instance creation */
+  signal?: AbortSignal;
+};
+
+/**
+ * Non-empty hex that parses as a KMS decryption proof with at least one signature
+ */
+function isWellFormedDecryptionProof(proof: unknown): proof is string {
+  if (typeof proof !== 'string' || !ethers.isHexString(proof) || proof.length <= 2) return false;
+  try {
+    return parseDecryptionProof(proof).signatures.length > 0;
+  } catch {
+    return false;
+  }
+}
+
+export class FhevmClient {
+  private instance: any = null;
+  private mode: FhevmMode;
+  private platform?: FhevmPlatform;
+  private network?: FhevmNetworkConfig;
+  private requestedNetwork?: number | FhevmNetworkConfig;
+  private config: Record<string, any>;
+  private provider?: Eip1193Provider;
+  private rpcUrl?: string;
+  private signer?: ethers.Signer;
+  private instanceProvider?: Eip1193Provider;
+  private reader?: ethers.Provider | null;
+  private kmsSignerSet?: Promise<KmsSignerSet>;
+  private relayerSdk: RelayerSdkOptions;
+  private mockUtils?: MockUtilsModule;
+  private worker: boolean | string | URL | Worker | (() => Worker);
+  private timeoutMs: number;
+  private retry: Partial<RetryPolicy> | false;
+  readonly logger: FhevmLogger;
+  readonly sessions: DecryptionSessionManager;
+
+  constructor(options: FhevmClientOptions = {}) {
+    this.mode = options.mode ?? 'relayer';
+    this.platform = options.platform;
+    this.requestedNetwork = options.network;
+    this.config = options.config ?? {};
+    this.provider = options.provider;
+    this.rpcUrl = options.rpcUrl;
+    this.signer = options.signer;
+    this.relayerSdk = options.relayerSdk ?? {};
+    this.mockUtils = options.mockUtils;
+    this.worker = options.worker ?? false;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.retry = options.retry ?? {};
+    this.logger = options.logger ?? createLogger();
+    this.sessions = new DecryptionSessionManager(options.decryptionSessions);
+  }
+
+  /**
+   * Initialize FHEVM instance - Environment-aware
+   * Options passed here override the ones given to the constructor.
+   */
+  async initialize(options: FhevmInitializeOptions = {}) {
+    if (options.mode) this.mode = options.mode;
+    if (options.platform) this.platform = options.platform;
+    if (options.network !== undefined) this.requestedNetwork = options.network;
+    if (options.config) this.config = { ...this.config, ...options.config };
+    if (options.provider) this.provider = options.provider;
+    if (options.rpcUrl) this.rpcUrl = options.rpcUrl;
+    if (options.signer) this.signer = options.signer;
+    if (options.relayerSdk) this.relayerSdk = { ...this.relayerSdk, ...options.relayerSdk };
+    if (options.mockUtils) this.mockUtils = options.mockUtils;
+    if (options.worker !== undefined) this.worker = options.worker;
+    if (options.timeoutMs !== undefined) this.timeoutMs = options.timeoutMs;
+    if (options.retry !== undefined) this.retry = options.retry;
+
+    // Stop the worker behind a previous worker-hosted instance
+    this.instance?.terminate?.();
+    this.reader = undefined;
+    this.kmsSignerSet = undefined;
+    if (this.mode === 'mock') {
+      this.instance = await this.initializeMock({ signal: options.signal });
+      this.instanceProvider = undefined;
+    } else {
+      const { instance, network, provider } = await this.requirePlatform().createInstance(this.platformContext(options.signal));
+      this.instance = instance;
+      this.network = network;
+      this.instanceProvider = provider;
+    }
+    return this.instance;
+  }
+
+  getInstance() {
+    return this.instance;
+  }
+
+  /**
+   * Network the current instance was created for
+   */
+  getNetwork() {
+    return this.network;
+  }
+
+  /**
+   * Signer the client was created or last initialized with
+   */
+  getSigner(): ethers.Signer | undefined {
+    return this.signer;
+  }
+
+  get isInitialized() {
+    return this.instance !== null;
+  }
+
+  /**
+   * Parse a handle and check it belongs to the network this client runs on
+   */
+  parseHandle(handle: string): ParsedHandle {
+    if (!this.network) throw new NotInitializedError();
+    return validateHandle(handle, this.network);
+  }
+
+  /**
+   * Run a relayer call under the client's timeout and retry policy,
+   * with per-call overrides from `options`
+   */
+  private run<T>(operation: (signal: AbortSignal) => Promise<T>, options: OperationOptions = {}): Promise<T> {
+    const retry = options.retry && this.retry
+      ? { ...this.retry, ...options.retry }
+      : options.retry ?? this.retry;
+    return withRetry(operation, {
+      signal: options.signal,
+      timeoutMs: options.timeoutMs ?? this.timeoutMs,
+      retry,
+    });
+  }
+
+  private requirePlatform() {
+    const platform = this.platform ?? defaultPlatform;
+    if (!platform) {
+      throw new Error('No FHEVM platform installed. Import the SDK from "@fhevm-sdk" (browser) or "@fhevm-sdk/node", or pass { platform }.');
+    }
+    return platform;
+  }
+
+  private platformContext(signal?: AbortSignal): FhevmPlatformContext {
+    return {
+      network: this.requestedNetwork,
+      config: this.config,
+      provider: this.provider,
+      rpcUrl: this.rpcUrl,
+      signer: this.signer,
+      relayerSdk: this.relayerSdk,
+      worker: this.worker,
+      logger: this.logger,
+      signal,
+      run: (operation, options) => this.run(operation, options),
+    };
+  }
+
+  private requireInstance() {
+    if (!this.instance) throw new NotInitializedError();
+    return this.instance;
+  }
+
+  private requireSigner(signer?: any) {
+    const resolved = signer ?? this.signer;
+    if (!resolved) throw new MissingSignerError('A signer is required for user decryption. Pass one or initialize the client with { signer }.');
+    return resolved;
+  }
+
+  /**
+   * Initialize a mock instance against a local Hardhat node (defaults to chain 31337)
+   */
+  private async initializeMock(options: OperationOptions) {
+    const requested = this.requestedNetwork;
+    const network = typeof requested === 'object'
+      ? requested
+      : requireNetwork(requested ?? HARDHAT_NETWORK.chainId);
+
+    const instance = await this.run(() => createMockFhevmInstance({ network, rpcUrl: this.rpcUrl, mockUtils: this.mockUtils }), options);
+    this.network = network;
+    this.logger.info(`Mock FHEVM instance created for ${network.name}`);
+    return instance;
+  }
+
+  /**
+   * Provider for host-chain reads: the signer's provider, the instance's
+   * provider or the RPC URL; null when none is available
+   */
+  private chainReader(): ethers.Provider | null {
+    if (this.reader !== undefined) return this.reader;
+    if (!this.network) throw new NotInitializedError();
+
+    const eip1193 = this.instanceProvider ?? this.provider;
+    const rpcUrl = this.rpcUrl ?? this.network.rpcUrl;
+    this.reader = this.signer?.provider
+      ?? (eip1193 ? new ethers.BrowserProvider(eip1193, this.network.chainId) : undefined)
+      ?? (rpcUrl ? new ethers.JsonRpcProvider(rpcUrl, this.network.chainId, { staticNetwork: true }) : undefined)
+      ?? null;
+    return this.reader;
+  }
+
+  private requireChainReader(): ethers.Provider {
+    const reader = this.chainReader();
+    if (!reader) throw new MissingProviderError('Reading the host chain needs a provider. Initialize the client with { provider }, { signer } or { rpcUrl }.');
+    return reader;
+  }
+
+  /**
+   * ACL contract of the current network; null when there is no provider to read it with
+   */
+  private aclContract(): ethers.Contract | null {
+    const reader = this.chainReader();
+    return reader ? getAclContract(this.network!.aclContractAddress, reader) : null;
+  }
+
+  private requireAcl(): ethers.Contract {
+    return getAclContract(this.requireCurrentNetwork().aclContractAddress, this.requireChainReader());
+  }
+
+  private requireCurrentNetwork(): FhevmNetworkConfig {
+    if (!this.network) throw new NotInitializedError();
+    return this.network;
+  }
+
+  /**
+   * Chain the decryption authorization is bound to
+   */
+  private async chainIdFor(signer: any): Promise<number> {
+    if (this.network) return this.network.chainId;
+    return Number((await signer.provider.getNetwork()).chainId);
+  }
+
+  /**
+   * Sign an EIP-712 user-decryption request for one contract, reusing a cached
+   * session while it is valid, then decrypt its handles
+   */
+  private async userDecrypt(handles: string[], contractAddress: string, signer?: any, options?: OperationOptions) {
+    const fhe = this.requireInstance();
+    signer = this.requireSigner(signer);
+
+    try {
+      handles.forEach((handle) => this.parseHandle(handle));
+
+      // Fail before the wallet prompt when the ACL would make the relayer refuse
+      const acl = this.aclContract();
+      if (acl) {
+        const userAddress = await signer.getAddress();
+        await this.run(() => requireUserDecryptAccess(acl, handles, userAddress, contractAddress), options);
+      }
+
+      const session = await this.sessions.getSession(fhe, signer, [contractAddress], await this.chainIdFor(signer));
+      const handleContractPairs = handles.map(handle => ({
+        handle,
+        contractAddress: ethers.getAddress(contractAddress),
+      }));
+
+      // Only the relayer round-trip is bounded; the wallet prompt above may take as long as the user needs
+      return await this.run<any>(() => fhe.userDecrypt(
+        handleContractPairs,
+        session.privateKey,
+        session.publicKey,
+        session.signature,
+        session.contractAddresses,
+        session.userAddress,
+        session.startTimestamp.toString(),
+        session.durationDays.toString()
+      ), options);
+    } catch (error) {
+      throw toFhevmError(error);
+    }
+  }
+
+  /**
+   * Whether `userAddress` may user-decrypt `handle` through `contractAddress`:
+   * both must be on the handle's ACL
+   */
+  async canUserDecrypt(handle: string, userAddress: string, contractAddress: string, options?: OperationOptions): Promise<boolean> {
+    this.parseHandle(handle);
+    try {
+      const acl = this.requireAcl();
+      return await this.run(() => isAllowedForUserDecryption(acl, handle, userAddress, contractAddress), options);
+    } catch (error) {
+      throw toFhevmError(error);
+    }
+  }
+
+  /**
+   * Whether `handle` was marked publicly decryptable on-chain
+   */
+  async isPubliclyDecryptable(handle: string, options?: OperationOptions): Promise<boolean> {
+    this.parseHandle(handle);
+    try {
+      const acl = this.requireAcl();
+      return await this.run(() => isAllowedForPublicDecryption(acl, handle), options);
+    } catch (error) {
+      throw toFhevmError(error);
+    }
+  }
+
+  /**
+   * Resolve once every handle is publicly decryptable
+   */
+  async waitForPublicDecryption(handles: string[], options?: AclWaitOptions): Promise<void> {
+    handles.forEach((handle) => this.parseHandle(handle));
+    try {
+      await waitForPublicDecryptAccess(this.requireAcl(), handles, options);
+    } catch (error) {
+      throw toFhevmError(error);
+    }
+  }
+
+  /**
+   * KMS signers and threshold from the network's KMSVerifier; cached until
+   * the next `initialize()` or a `refresh`
+   */
+  async getKmsSignerSet(options: OperationOptions & { refresh?: boolean } = {}): Promise<KmsSignerSet> {
+    const kmsVerifier = getKmsVerifierContract(this.requireCurrentNetwork().kmsContractAddress, this.requireChainReader());
+    if (!this.kmsSignerSet || options.refresh) {
+      const loading = this.run(() => getKmsSignerSet(kmsVerifier), options);
+      this.kmsSignerSet = loading;
+      loading.catch(() => {
+        if (this.kmsSignerSet === loading) this.kmsSignerSet = undefined;
+      });
+    }
+    try {
+      return await this.kmsSignerSet;
+    } catch (error) {
+      throw toFhevmError(error);
+    }
+  }
+
+  /**
+   * Check a public decryption proof locally against the on-chain KMS signer set,
+   * so a bad proof fails with ProofInvalidError instead of an `InvalidKMSSignatures` revert
+   */
+  async verifyDecryptionProof(
+    handles: string[],
+    abiEncodedClearValues: string,
+    decryptionProof: string,
+    options?: OperationOptions
+  ): Promise<void> {
+    const network = this.requireCurrentNetwork();
+    handles.forEach((handle) => this.parseHandle(handle));
+
+    try {
+      assertKmsSignatures(network, await this.getKmsSignerSet(options), handles, abiEncodedClearValues, decryptionProof);
+    } catch (error) {
+      if (!isFhevmError(error, 'PROOF_INVALID')) throw toFhevmError(error);
+      // The signer set may have rotated since it was cached
+      this.logger.debug('Decryption proof rejected; re-reading the KMS signer set');
+      const signerSet = await this.getKmsSignerSet({ ...options, refresh: true });
+      assertKmsSignatures(network, signerSet, handles, abiEncodedClearValues, decryptionProof);
+    }
+  }
+
+  /**
+   * Sign a new user-decryption authorization for `contractAddresses`, replacing the cached one
+   */
+  async refreshDecryptionSession(contractAddresses: string[], signer?: any) {
+    signer = this.requireSigner(signer);
+    return this.sessions.refresh(this.requireInstance(), signer, contractAddresses, await this.chainIdFor(signer));
+  }
+
+  /**
+   * Drop the cached user-decryption authorization for `contractAddresses`
+   */
+  async revokeDecryptionSession(contractAddresses: string[], signer?: any) {
+    signer = this.requireSigner(signer);
+    await this.sessions.revoke(await signer.getAddress(), contractAddresses, await this.chainIdFor(signer));
+  }
+
+  /**
+   * Decrypt a single encrypted value using EIP-712 user decryption (matches showcase API)
+   */
+  async decryptValue(encryptedBytes: string, contractAddress: string, signer?: any, options?: OperationOptions): Promise<number> {
+    this.logger.debug(`User decryption for ${formatHandle(this.parseHandle(encryptedBytes))}`);
+
+    const result = await this.userDecrypt([encryptedBytes], contractAddress, signer, options);
+    return Number(result[encryptedBytes]);
+  }
+
+  /**
+   * Batch decrypt multiple encrypted values using EIP-712 user decryption
+   */
+  async batchDecryptValues(
+    handles: string[],
+    contractAddress: string,
+    signer?: any,
+    options?: OperationOptions
+  ): Promise<Record<string, number>> {
+    this.logger.debug(`Batch user decryption for ${handles.length} handles`);
+
+    const result = await this.userDecrypt(handles, contractAddress, signer, options);
+
+    // Convert result to numbers
+    const decryptedValues: Record<string, number> = {};
+    for (const handle of handles) {
+      decryptedValues[handle] = Number(result[handle]);
+    }
+
+    return decryptedValues;
+  }
+
+  /**
+   * User-decrypt handles keeping each value's type: bigint for integers,
+   * boolean for ebool, checksummed address for eaddress
+   */
+  async decryptClearValues(
+    handles: string[],
+    contractAddress: string,
+    signer?: any,
+    options?: OperationOptions
+  ): Promise<Record<string, ClearValue>> {
+    this.logger.debug(`User decryption for ${handles.length} handles`);
+
+    const result = await this.userDecrypt(handles, contractAddress, signer, options);
+
+    const clearValues: Record<string, ClearValue> = {};
+    for (const handle of handles) {
+      clearValues[handle] = toAbiValue(getHandleFheType(handle), result[handle]);
+    }
+    return clearValues;
+  }
+
+  /**
+   * Encrypt typed `{ type, value }` entries into one input.
+   * Each entry is range-checked and encrypted with the matching width;
+   * handles come back in entry order, typed by their FHE type.
+   */
+  async encryptInputs<const E extends readonly EncryptedInputEntry[]>(
+    contractAddress: string,
+    userAddress: string,
+    entries: E,
+    options?: OperationOptions
+  ): Promise<TypedEncryptedInput<E>> {
+    const fhe = this.requireInstance();
+    return this.run(() => encryptEntries(fhe, contractAddress, userAddress, entries), options);
+  }
+
+  /**
+   * Encrypt a list of digits as euint8 values in a single input
+   */
+  async encryptValue(contractAddress: string, address: string, plainDigits: number[], options?: OperationOptions) {
+    return this.encryptInputs(
+      contractAddress,
+      address,
+      plainDigits.map((d) => ({ type: 'euint8' as const, value: d })),
+      options
+    );
+  }
+
+  /**
+   * Encrypt an ordered list of values into one input proof with N handles.
+   * Plain numbers use `type`; pass `{ type, value }` entries to mix widths.
+   */
+  async createBatchEncryptedInput(
+    contractAddress: string,
+    userAddress: string,
+    values: ReadonlyArray<number | bigint | EncryptedInputEntry>,
+    type: Exclude<FheType, 'ebool' | 'eaddress'> = 'euint32',
+    options?: OperationOptions
+  ): Promise<BatchEncryptedInput> {
+    const entries = values.map((value): EncryptedInputEntry =>
+      typeof value === 'object' ? value : { type, value }
+    );
+    return this.encryptInputs(contractAddress, userAddress, entries, options);
+  }
+
+  /**
+   * Create encrypted input for contract interaction (matches showcase API)
+   * Defaults to euint32; pass `type` to match the contract's external type.
+   */
+  async createEncryptedInput<T extends FheType = 'euint32'>(
+    contractAddress: string,
+    userAddress: string,
+    value: FheClearValue<T>,
+    type: T = 'euint32' as T,
+    options?: OperationOptions
+  ): Promise<{ encryptedData: ExternalHandle<T>; proof: `0x${string}` }> {
+    this.logger.debug(`Creating encrypted ${type} input for contract ${contractAddress}`);
+
+    const entry = { type, value } as EncryptedInputEntry;
+    const { handles, inputProof } = await this.encryptInputs(contractAddress, userAddress, [entry], options);
+
+    return {
+      encryptedData: handles[0] as ExternalHandle<T>,
+      proof: inputProof
+    };
+  }
+
+  /**
+   * Public decryption. Results carrying a KMS proof are `verifiable`; the
+   * fallback for relayers without proofs is not and must not go on-chain.
+   */
+  async publicDecryptV09(handles: string[], options?: PublicDecryptOptions): Promise<PublicDecryptionResult> {
+    const fhe = this.requireInstance();
+
+    try {
+      this.logger.debug(`Public decryption for ${handles.length} handles`);
+
+      for (const handle of handles) {
+        // Malformed handles, unknown types and handles from another chain fail before the relayer round-trip
+        this.parseHandle(handle);
+      }
+
+      if (options?.waitForAccess) {
+        // Waiting polls the ACL, so it needs a provider rather than being skipped without one
+        const waitOptions = options.waitForAccess === true ? {} : options.waitForAccess;
+        await waitForPublicDecryptAccess(this.requireAcl(), handles, { signal: options.signal, ...waitOptions });
+      } else {
+        const acl = this.aclContract();
+        if (acl) await this.run(() => requirePublicDecryptAccess(acl, handles), options);
+      }
+
+      const result = await this.run<any>(() => fhe.publicDecrypt(handles), options);
+
+      if (!result || typeof result !== 'object') {
+        throw new Error('Invalid publicDecrypt result structure');
+      }
+      if (result.clearValues && result.abiEncodedClearValues) {
+        if (isWellFormedDecryptionProof(result.decryptionProof)) {
+          return { ...result, verifiable: true };
+        }
+        this.logger.warn('Relayer returned a malformed decryption proof; result is not verifiable on-chain');
+        return {
+          verifiable: false,
+          clearValues: result.clearValues,
+          abiEncodedClearValues: result.abiEncodedClearValues,
+          decryptionProof: '0x'
+        };
+      }
+
+      // Pre-v0.9 relayers return a bare handle -> value map
+      this.logger.warn('Relayer returned no decryption proof; using fallback encoding, result is not verifiable on-chain');
+
+      const clearValues: { [handle: string]: ClearValue } = {};
+      for (const handle of handles) {
+        clearValues[handle] = result[handle];
+      }
+
+      return {
+        verifiable: false,
+        clearValues,
+        abiEncodedClearValues: encodeClearValues(handles, clearValues),
+        decryptionProof: '0x'
+      };
+    } catch (error) {
+      throw toFhevmError(error);
+    }
+  }
+}
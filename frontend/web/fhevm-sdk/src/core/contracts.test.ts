@@ -0,0 +1,147 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { FhevmContract } from './contracts.js';
+import type { AbiFragment } from './abi.js';
+import type { FhevmClient } from './client.js';
+import type { EncryptedInputEntry } from './encryption.js';
+
+const CONTRACT = ethers.getAddress('0x00000000000000000000000000000000000000c1');
+const USER = ethers.getAddress('0x00000000000000000000000000000000000000aa');
+const PROOF = '0x1234';
+
+const ABI: AbiFragment[] = [
+  {
+    type: 'function',
+    name: 'createProfile',
+    inputs: [
+      { name: 'id', type: 'string', internalType: 'string' },
+      { name: 'mileage', type: 'bytes32', internalType: 'externalEuint32' },
+      { name: 'mileageProof', type: 'bytes', internalType: 'bytes' },
+      { name: 'age', type: 'uint256', internalType: 'uint256' },
+      { name: 'verified', type: 'bytes32', internalType: 'externalEbool' },
+      { name: 'verifiedProof', type: 'bytes', internalType: 'bytes' },
+    ],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'setOwner',
+    inputs: [{ name: 'owner', type: 'address', internalType: 'address' }],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+];
+
+function handleFor(index: number) {
+  return ethers.zeroPadValue(ethers.toBeHex(index + 1), 32);
+}
+
+/** Client whose encrypted input returns one handle per entry and a shared proof */
+function fakeClient() {
+  const encryptInputs = vi.fn(async (_contract: string, _user: string, entries: readonly EncryptedInputEntry[]) => ({
+    handles: entries.map((_, i) => handleFor(i)),
+    inputProof: PROOF,
+  }));
+  return { client: { encryptInputs } as unknown as FhevmClient, encryptInputs };
+}
+
+function fakeContract() {
+  const receipt = { status: 1 };
+  const tx = { hash: '0xtx', wait: vi.fn(async () => receipt) };
+  const method = Object.assign(vi.fn(async (..._args: unknown[]) => tx), { staticCall: vi.fn(async () => undefined) });
+  const contract = {
+    runner: { getAddress: vi.fn(async () => USER) },
+    interface: new ethers.Interface(ABI as any),
+    getFunction: vi.fn(() => method),
+  };
+  return { contract: contract as unknown as ethers.Contract, method, tx, receipt };
+}
+
+function setup() {
+  const { client, encryptInputs } = fakeClient();
+  const { contract, method, tx, receipt } = fakeContract();
+  const fhevmContract = new FhevmContract(contract, CONTRACT, client, ABI);
+  return { fhevmContract, contract, encryptInputs, method, tx, receipt };
+}
+
+describe('FhevmContract.call', () => {
+  it('encrypts named arguments and fills every proof slot with the shared proof', async () => {
+    const { fhevmContract, contract, encryptInputs, method, tx } = setup();
+
+    const result = await fhevmContract.call('createProfile', { id: 'p1', mileage: 12000, age: 34, verified: true });
+
+    expect(result).toBe(tx);
+    expect(encryptInputs).toHaveBeenCalledWith(
+      CONTRACT,
+      USER,
+      [{ type: 'euint32', value: 12000 }, { type: 'ebool', value: true }],
+      {}
+    );
+    expect(contract.getFunction).toHaveBeenCalledWith('createProfile(string,bytes32,bytes,uint256,bytes32,bytes)');
+    expect(method).toHaveBeenCalledWith('p1', handleFor(0), PROOF, 34, handleFor(1), PROOF);
+  });
+
+  it('takes positional arguments without the proof parameters', async () => {
+    const { fhevmContract, encryptInputs, method } = setup();
+
+    await fhevmContract.call('createProfile', ['p1', 12000, 34, true], { userAddress: USER });
+
+    expect(encryptInputs.mock.calls[0][2]).toEqual([{ type: 'euint32', value: 12000 }, { type: 'ebool', value: true }]);
+    expect(method).toHaveBeenCalledWith('p1', handleFor(0), PROOF, 34, handleFor(1), PROOF);
+  });
+
+  it('names the expected parameters when an argument is missing', async () => {
+    const { fhevmContract, encryptInputs, method } = setup();
+
+    await expect(fhevmContract.call('createProfile', { id: 'p1', mileage: 12000, age: 34 }))
+      .rejects.toThrow('createProfile expects (id, mileage, age, verified)');
+    await expect(fhevmContract.call('createProfile', ['p1', 12000]))
+      .rejects.toThrow('createProfile expects (id, mileage, age, verified)');
+    expect(encryptInputs).not.toHaveBeenCalled();
+    expect(method).not.toHaveBeenCalled();
+  });
+
+  it('skips encryption for functions without encrypted parameters', async () => {
+    const { fhevmContract, encryptInputs, method } = setup();
+
+    await fhevmContract.call('setOwner', [USER]);
+
+    expect(encryptInputs).not.toHaveBeenCalled();
+    expect(method).toHaveBeenCalledWith(USER);
+  });
+
+  it('simulates first and appends overrides when asked', async () => {
+    const { fhevmContract, method } = setup();
+    const overrides = { gasLimit: 100000n };
+
+    await fhevmContract.call('setOwner', { owner: USER }, { simulate: true, overrides });
+
+    expect(method.staticCall).toHaveBeenCalledWith(USER, overrides);
+    expect(method).toHaveBeenCalledWith(USER, overrides);
+  });
+
+  it('requires the compiler ABI', async () => {
+    const { contract } = fakeContract();
+    const fhevmContract = new FhevmContract(contract, CONTRACT, fakeClient().client);
+
+    await expect(fhevmContract.call('setOwner', [USER])).rejects.toThrow('needs the compiler ABI');
+  });
+});
+
+describe('FhevmContract.callAndWait', () => {
+  it('waits for the receipt of the encrypted call', async () => {
+    const { fhevmContract, method, tx, receipt } = setup();
+
+    await expect(fhevmContract.callAndWait('createProfile', ['p1', 12000, 34, true])).resolves.toBe(receipt);
+    expect(method).toHaveBeenCalledWith('p1', handleFor(0), PROOF, 34, handleFor(1), PROOF);
+    expect(tx.wait).toHaveBeenCalledTimes(1);
+  });
+
+  it('fails when the transaction has no receipt', async () => {
+    const { fhevmContract, tx } = setup();
+    tx.wait.mockResolvedValueOnce(null as any);
+
+    await expect(fhevmContract.callAndWait('setOwner', [USER])).rejects.toThrow('Transaction receipt is null');
+  });
+});
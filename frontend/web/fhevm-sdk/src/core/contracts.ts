@@ -4,38 +4,220 @@
  */
 
 import { ethers } from 'ethers';
-import { createEncryptedInput } from './fhevm.js';
+import { getDefaultClient } from './fhevm.js';
+import { MissingSignerError, toFhevmError, type FhevmError } from './errors.js';
+import type { FhevmClient } from './client.js';
+import type { OperationOptions } from './retry.js';
+import {
+  encryptedTypeToFheType,
+  findEventFragment,
+  findFunctionFragment,
+  functionSignature,
+  getFunctionParamSlots,
+  toAbiFragments,
+  type AbiCallArgs,
+  type AbiEvent,
+  type AbiEventArgs,
+  type AbiEventClearValues,
+  type AbiFragment,
+  type AbiFunction,
+} from './abi.js';
+import {
+  eventArgs,
+  toEventIterator,
+  watchContractEvent,
+  type FhevmEvent,
+  type FhevmEventOptions,
+} from './events.js';
+import type { ClearValue } from './decryption.js';
+import {
+  toHandleProofArgs,
+  type BatchEncryptedInput,
+  type EncryptedInputEntry,
+  type FheClearValue,
+  type FheType,
+} from './encryption.js';
 
-export class FhevmContract {
-  private contract: ethers.Contract;
+/**
+ * Output of `createEncryptedInput`: one handle with its proof
+ */
+export interface EncryptedParams {
+  encryptedData: string;
+  proof: string;
+}
+
+export interface FhevmCallOptions extends OperationOptions {
+  /** Account the input is encrypted for; defaults to the contract runner's address */
+  userAddress?: string;
+  /** Transaction overrides such as gasLimit or value */
+  overrides?: ethers.Overrides;
+  /** `staticCall` first, so a reverting call fails before the wallet prompt */
+  simulate?: boolean;
+}
+
+/**
+ * `staticCall` a contract function, then send it. A call that would revert
+ * fails with a decoded ContractRevertedError before the wallet is asked to sign.
+ */
+export async function simulateAndSend(
+  contract: ethers.BaseContract,
+  functionName: string,
+  args: readonly unknown[],
+  overrides?: ethers.Overrides
+): Promise<ethers.ContractTransactionResponse> {
+  const method = contract.getFunction(functionName);
+  const callArgs = overrides ? [...args, overrides] : [...args];
+  try {
+    await method.staticCall(...callArgs);
+    return await method.send(...callArgs);
+  } catch (error) {
+    throw toFhevmError(error, contract.interface);
+  }
+}
+
+/**
+ * Members shared by typechain's TypedContractMethod and ethers' BaseContractMethod
+ */
+interface ContractMethodLike {
+  fragment: ethers.FunctionFragment;
+  staticCallResult(...args: any[]): Promise<any>;
+}
+
+/**
+ * Function names of a typechain contract; any string for a plain ethers.Contract
+ */
+export type ContractFunctionName<T extends ethers.BaseContract> = string extends keyof T
+  ? string
+  : { [K in keyof T]: T[K] extends ContractMethodLike ? K : never }[keyof T] & string;
+
+/** Typechain methods accept `[...args]` or `[...args, overrides]`; keep the former */
+type WithoutOverrides<P, All = P> = P extends readonly [...infer Init, unknown]
+  ? (Init extends All ? never : P)
+  : P;
+
+type Untyped<P> = { [I in keyof P]: Exclude<P[I], ethers.Typed> };
+
+/**
+ * Argument tuple of a contract function, without overrides
+ */
+export type ContractFunctionArgs<T extends ethers.BaseContract, K extends string> = K extends keyof T
+  ? T[K] extends { staticCallResult(...args: infer P): any } ? Untyped<WithoutOverrides<P>> : unknown[]
+  : unknown[];
+
+/**
+ * What calling a contract function resolves to: the decoded result for view
+ * functions, the transaction response otherwise
+ */
+export type ContractFunctionResult<T extends ethers.BaseContract, K extends string> = string extends K
+  ? Promise<ethers.ContractTransactionResponse>
+  : K extends keyof T
+    ? T[K] extends (...args: any[]) => infer R ? R : Promise<ethers.ContractTransactionResponse>
+    : Promise<ethers.ContractTransactionResponse>;
+
+/**
+ * Arguments of `FhevmContract.call`. With an `as const` ABI (such as a typechain
+ * factory's `abi`) encrypted parameters take their clear value type and proofs
+ * are left out; otherwise any named or positional arguments are accepted.
+ */
+export type FhevmCallArgs<T extends ethers.BaseContract, A extends readonly AbiFragment[], K extends string> =
+  [AbiFunction<A, K>] extends [never]
+    ? Record<string, unknown> | readonly unknown[]
+    : AbiCallArgs<AbiFunction<A, K>, Extract<ContractFunctionArgs<T, K>, readonly unknown[]>>;
+
+/**
+ * Event names of a typechain contract; any string for a plain ethers.Contract
+ */
+export type ContractEventName<T extends ethers.BaseContract> = string extends keyof T['filters']
+  ? string
+  : Exclude<keyof T['filters'] & string, `${string}(${string}`>;
+
+/**
+ * Event delivered by `FhevmContract.subscribe` / `events`. With an `as const`
+ * ABI, arguments and clear values are typed per event.
+ */
+export type FhevmContractEvent<A extends readonly AbiFragment[], K extends string> = [AbiEvent<A, K>] extends [never]
+  ? FhevmEvent
+  : FhevmEvent<AbiEventArgs<AbiEvent<A, K>>, AbiEventClearValues<AbiEvent<A, K>>>;
+
+export interface FhevmSubscribeOptions extends FhevmEventOptions {
+  /** Called when fetching, decoding or the listener fails; the subscription stays open */
+  onError?: (error: FhevmError) => void;
+  /** Called once a bounded (`toBlock`) range has been delivered */
+  onDone?: () => void;
+}
+
+type WithoutHandleAndProof<P> = P extends readonly [unknown, unknown, ...infer Rest] ? Rest : any[];
+
+/**
+ * Wraps a contract for FHE calls. Pass a typechain contract and factory to type
+ * function names, arguments and results:
+ *
+ *   new FhevmContract(UniversalFHEAdapter__factory.connect(address, signer), address, client, UniversalFHEAdapter__factory)
+ */
+export class FhevmContract<
+  T extends ethers.BaseContract = ethers.Contract,
+  const A extends readonly AbiFragment[] = readonly AbiFragment[],
+> {
+  private contract: T;
   private address: string;
+  private fhevmClient?: FhevmClient;
+  private abi?: readonly AbiFragment[];
 
-  constructor(contract: ethers.Contract, address: string) {
+  /**
+   * @param client - FHEVM client to encrypt with; defaults to the module-level client
+   * @param abi - Compiler ABI (or artifact, or typechain factory) of the contract.
+   *   `call` needs it: ethers drops the `internalType` that marks encrypted parameters.
+   */
+  constructor(
+    contract: T,
+    address: string,
+    client?: FhevmClient,
+    abi?: A | { abi: A }
+  ) {
     this.contract = contract;
     this.address = address;
+    this.fhevmClient = client;
+    this.abi = abi && toAbiFragments(abi);
+  }
+
+  private get client() {
+    return this.fhevmClient ?? getDefaultClient();
   }
 
   /**
    * Encrypt and call contract function
+   * A batch is spread as `handle0, proof, handle1, proof, ...` ahead of `additionalParams`.
    */
-  async encryptAndCall(
-    functionName: string,
-    encryptedParams: any,
-    ...additionalParams: any[]
+  async encryptAndCall<K extends ContractFunctionName<T>, E extends EncryptedParams | BatchEncryptedInput>(
+    functionName: K,
+    encryptedParams: E,
+    ...additionalParams: E extends BatchEncryptedInput ? any[] : WithoutHandleAndProof<ContractFunctionArgs<T, K>>
   ): Promise<ethers.ContractTransactionResponse> {
-    return this.contract[functionName](encryptedParams.encryptedData, encryptedParams.proof, ...additionalParams);
+    const encryptedArgs = 'handles' in encryptedParams
+      ? toHandleProofArgs(encryptedParams)
+      : [encryptedParams.encryptedData, encryptedParams.proof];
+    try {
+      return await this.contract.getFunction(functionName)(...encryptedArgs, ...additionalParams);
+    } catch (error) {
+      throw toFhevmError(error, this.contract.interface);
+    }
   }
 
   /**
    * Encrypt and call with wait
    */
-  async encryptAndCallAndWait(
-    functionName: string,
-    encryptedParams: any,
-    ...additionalParams: any[]
+  async encryptAndCallAndWait<K extends ContractFunctionName<T>, E extends EncryptedParams | BatchEncryptedInput>(
+    functionName: K,
+    encryptedParams: E,
+    ...additionalParams: E extends BatchEncryptedInput ? any[] : WithoutHandleAndProof<ContractFunctionArgs<T, K>>
   ): Promise<ethers.TransactionReceipt> {
     const tx = await this.encryptAndCall(functionName, encryptedParams, ...additionalParams);
-    const receipt = await tx.wait();
+    let receipt;
+    try {
+      receipt = await tx.wait();
+    } catch (error) {
+      throw toFhevmError(error, this.contract.interface);
+    }
     if (!receipt) {
       throw new Error("Transaction receipt is null");
     }
@@ -43,11 +225,204 @@ export class FhevmContract {
   }
 
   /**
-   * Create encrypted input for contract
+   * Call `functionName` with plain values for its encrypted parameters.
+   * Parameters declared `externalEuintX`, `externalEbool` or `externalEaddress`
+   * are encrypted together with their ABI widths under one proof, which fills
+   * the `bytes` proof parameters. Pass args by parameter name, or positionally
+   * without the proof parameters.
+   *
+   * Example:
+   *   await contract.call('createDriverProfile', {
+   *     encryptedMileage: 12000, encryptedSpeedingEvents: 3, age: 34, vehicleValue: 25000, basePremium: 900,
+   *   });
    */
-  async createEncryptedInput(userAddress: string, value: number) {
-    return createEncryptedInput(this.address, userAddress, value);
+  async call<K extends ContractFunctionName<T>>(
+    functionName: K,
+    args: FhevmCallArgs<T, A, K>,
+    options: FhevmCallOptions = {}
+  ): Promise<Awaited<ContractFunctionResult<T, K>>> {
+    if (!this.abi) {
+      throw new Error('FhevmContract.call needs the compiler ABI. Pass it as the fourth constructor argument.');
+    }
+    const fragment = findFunctionFragment(this.abi, functionName);
+    const slots = getFunctionParamSlots(fragment);
+
+    // Values for every non-proof parameter, in ABI order
+    const valueSlots = slots.filter((slot) => slot.kind !== 'proof');
+    const positional = Array.isArray(args) ? (args as readonly unknown[]) : undefined;
+    const named = args as Record<string, unknown>;
+    const missing = positional ? [] : valueSlots.filter((slot) => !(slot.name in named));
+    if ((positional && positional.length !== valueSlots.length) || missing.length > 0) {
+      throw new Error(`${fragment.name} expects (${valueSlots.map((slot) => slot.name).join(', ')})`);
+    }
+    const values = new Map(valueSlots.map((slot, i) => [slot.index, positional ? positional[i] : named[slot.name]]));
+
+    const entries = slots.flatMap((slot) =>
+      slot.kind === 'encrypted' ? [{ type: slot.fheType, value: values.get(slot.index) } as EncryptedInputEntry] : []
+    );
+
+    let callArgs: unknown[];
+    if (entries.length === 0) {
+      callArgs = slots.map((slot) => values.get(slot.index));
+    } else {
+      const userAddress = options.userAddress ?? await this.runnerAddress();
+      const { handles, inputProof } = await this.client.encryptInputs(this.address, userAddress, entries, options);
+      let next = 0;
+      callArgs = slots.map((slot) =>
+        slot.kind === 'encrypted' ? handles[next++] : slot.kind === 'proof' ? inputProof : values.get(slot.index)
+      );
+    }
+
+    try {
+      const method = this.contract.getFunction(functionSignature(fragment));
+      if (options.overrides) callArgs.push(options.overrides);
+      if (options.simulate) await method.staticCall(...callArgs);
+      return await method(...callArgs);
+    } catch (error) {
+      throw toFhevmError(error, this.contract.interface);
+    }
+  }
+
+  /**
+   * `call`, then wait for the receipt
+   */
+  async callAndWait<K extends ContractFunctionName<T>>(
+    functionName: K,
+    args: FhevmCallArgs<T, A, K>,
+    options?: FhevmCallOptions
+  ): Promise<ethers.TransactionReceipt> {
+    const tx = await this.call(functionName, args, options) as ethers.ContractTransactionResponse;
+    let receipt;
+    try {
+      receipt = await tx.wait();
+    } catch (error) {
+      throw toFhevmError(error, this.contract.interface);
+    }
+    if (!receipt) {
+      throw new Error("Transaction receipt is null");
+    }
+    return receipt;
   }
-}
 
+  /**
+   * Call `listener` for each `eventName` event, oldest first. Pass `fromBlock`
+   * to replay history, `toBlock` to stop there, and `decrypt` to user-decrypt
+   * the payload's encrypted handles. Returns a function that unsubscribes.
+   *
+   * Example:
+   *   const stop = contract.subscribe('BusinessDataCreated', ({ args }) => reload(args.creator));
+   */
+  subscribe<K extends ContractEventName<T>>(
+    eventName: K,
+    listener: (event: FhevmContractEvent<A, K>) => void | Promise<void>,
+    options: FhevmSubscribeOptions = {}
+  ): () => void {
+    return watchContractEvent(
+      this.contract,
+      eventName,
+      (log) => this.toEvent(log, options) as Promise<FhevmContractEvent<A, K>>,
+      {
+        onEvent: listener,
+        onError: options.onError ?? ((error) => this.client.logger.error(`${eventName} subscription failed: ${error.message}`)),
+        onDone: options.onDone,
+      },
+      options
+    );
+  }
 
+  /**
+   * `subscribe` as an async iterator; leave the loop or abort `signal` to unsubscribe
+   *
+   * Example:
+   *   for await (const { args, clearValues } of contract.events('ValueUpdated', { fromBlock: 0, decrypt: true })) { ... }
+   */
+  events<K extends ContractEventName<T>>(eventName: K, options: FhevmEventOptions = {}): AsyncIterableIterator<FhevmContractEvent<A, K>> {
+    return toEventIterator<FhevmContractEvent<A, K>>(
+      (handlers) => watchContractEvent(
+        this.contract,
+        eventName,
+        (log) => this.toEvent(log, options) as Promise<FhevmContractEvent<A, K>>,
+        handlers,
+        options
+      ),
+      options.signal
+    );
+  }
+
+  private async toEvent(log: ethers.EventLog, options: FhevmEventOptions): Promise<FhevmEvent> {
+    const args = eventArgs(log);
+    const event: FhevmEvent = {
+      name: log.eventName,
+      args,
+      clearValues: {},
+      blockNumber: log.blockNumber,
+      transactionHash: log.transactionHash,
+      log,
+    };
+    if (!options.decrypt) return event;
+
+    const encrypted = this.encryptedArgNames(log, args);
+    if (encrypted.length === 0) return event;
+
+    const runner = this.contract.runner as ethers.Signer | null;
+    const signer = options.signer ?? (typeof runner?.signTypedData === 'function' ? runner : undefined);
+    try {
+      const handles = [...new Set(encrypted.map((name) => String(args[name])))];
+      const clearValues = await this.client.decryptClearValues(handles, this.address, signer, { signal: options.signal });
+      event.clearValues = Object.fromEntries(encrypted.map((name): [string, ClearValue] => [name, clearValues[String(args[name])]]));
+    } catch (error) {
+      event.decryptError = toFhevmError(error);
+    }
+    return event;
+  }
+
+  /**
+   * Arguments holding handles: from the ABI's `euintX` internal types when
+   * available, else `bytes32` values that parse as handles for this chain
+   */
+  private encryptedArgNames(log: ethers.EventLog, args: Record<string, any>): string[] {
+    const fragment = this.abi && findEventFragment(this.abi, log.eventName);
+    if (fragment) {
+      return (fragment.inputs ?? []).flatMap((input, i) =>
+        encryptedTypeToFheType(input.internalType) ? [input.name || `arg${i}`] : []
+      );
+    }
+    return log.fragment.inputs.flatMap((input, i) => {
+      const name = input.name || `arg${i}`;
+      if (input.type !== 'bytes32') return [];
+      try {
+        this.client.parseHandle(args[name]);
+        return [name];
+      } catch {
+        return [];
+      }
+    });
+  }
+
+  private async runnerAddress(): Promise<string> {
+    const runner = this.contract.runner as ethers.Signer | null;
+    if (typeof runner?.getAddress !== 'function') {
+      throw new MissingSignerError('Encrypting call arguments needs a signer-backed contract or { userAddress }.');
+    }
+    return runner.getAddress();
+  }
+
+  /**
+   * Create encrypted input for contract
+   */
+  async createEncryptedInput<V extends FheType = 'euint32'>(userAddress: string, value: FheClearValue<V>, type?: V, options?: OperationOptions) {
+    return this.client.createEncryptedInput<V>(this.address, userAddress, value, type, options);
+  }
+
+  /**
+   * Encrypt several values for this contract under a single proof
+   */
+  async createBatchEncryptedInput(
+    userAddress: string,
+    values: ReadonlyArray<number | bigint | EncryptedInputEntry>,
+    type?: Exclude<FheType, 'ebool' | 'eaddress'>,
+    options?: OperationOptions
+  ) {
+    return this.client.createBatchEncryptedInput(this.address, userAddress, values, type, options);
+  }
+}
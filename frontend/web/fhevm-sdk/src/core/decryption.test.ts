@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { ethers } from 'ethers';
+import { decodeClearValues, encodeClearValues, toAbiValue } from './decryption.js';
+import { FHE_TYPE_ABI, FHE_TYPE_IDS } from './handles.js';
+import type { FheType } from './encryption.js';
+import { InvalidHandleError } from './errors.js';
+
+function makeHandle(type: FheType, seed = 1) {
+  const bytes = new Uint8Array(32).fill(seed);
+  bytes[21] = 0xff;
+  bytes.set(ethers.getBytes(ethers.toBeHex(31337, 8)), 22);
+  bytes[30] = FHE_TYPE_IDS[type];
+  bytes[31] = 0;
+  return ethers.hexlify(bytes);
+}
+
+const ADDRESS = '0x000000000000000000000000000000000000dEaD';
+
+const SAMPLES: [FheType, bigint | boolean | string][] = [
+  ['ebool', true],
+  ['euint8', 255n],
+  ['euint16', 65_535n],
+  ['euint32', 4_294_967_295n],
+  ['euint64', 2n ** 64n - 1n],
+  ['euint128', 2n ** 128n - 1n],
+  ['euint256', 2n ** 256n - 1n],
+  ['eaddress', ADDRESS],
+];
+
+describe('encodeClearValues', () => {
+  it.each(SAMPLES)('encodes %s with its Solidity type', (type, value) => {
+    const handle = makeHandle(type);
+    const encoded = encodeClearValues([handle], { [handle]: value });
+
+    expect(encoded).toBe(ethers.AbiCoder.defaultAbiCoder().encode([FHE_TYPE_ABI[type]], [value]));
+  });
+
+  it('encodes several handles in handle order, not key order', () => {
+    const flag = makeHandle('ebool', 1);
+    const amount = makeHandle('euint64', 2);
+    const owner = makeHandle('eaddress', 3);
+
+    const encoded = encodeClearValues([amount, owner, flag], { [flag]: false, [owner]: ADDRESS, [amount]: 42n });
+
+    expect(encoded).toBe(ethers.AbiCoder.defaultAbiCoder().encode(['uint64', 'address', 'bool'], [42n, ADDRESS, false]));
+  });
+
+  it('coerces relayer value shapes', () => {
+    const flag = makeHandle('ebool', 1);
+    const amount = makeHandle('euint32', 2);
+    const owner = makeHandle('eaddress', 3);
+
+    const encoded = encodeClearValues([flag, amount, owner], {
+      [flag]: 1n,
+      [amount]: '7',
+      [owner]: BigInt(ADDRESS),
+    });
+
+    expect(encoded).toBe(ethers.AbiCoder.defaultAbiCoder().encode(['bool', 'uint32', 'address'], [true, 7n, ADDRESS]));
+  });
+
+  it('rejects handles with an unknown type', () => {
+    const handle = ethers.hexlify(new Uint8Array(32).fill(0x09));
+    expect(() => encodeClearValues([handle], { [handle]: 1n })).toThrow(InvalidHandleError);
+  });
+});
+
+describe('decodeClearValues', () => {
+  it('reverses encodeClearValues', () => {
+    const handles = SAMPLES.map(([type], i) => makeHandle(type, i + 1));
+    const clearValues = Object.fromEntries(handles.map((handle, i) => [handle, SAMPLES[i][1]]));
+
+    expect(decodeClearValues(handles, encodeClearValues(handles, clearValues))).toEqual(clearValues);
+  });
+});
+
+describe('toAbiValue', () => {
+  it('maps booleans and numbers to each other', () => {
+    expect(toAbiValue('ebool', 0n)).toBe(false);
+    expect(toAbiValue('ebool', '1')).toBe(true);
+    expect(toAbiValue('euint8', true)).toBe(1n);
+    expect(toAbiValue('euint8', false)).toBe(0n);
+  });
+
+  it('checksums and pads addresses', () => {
+    expect(toAbiValue('eaddress', ADDRESS.toLowerCase())).toBe(ADDRESS);
+    expect(toAbiValue('eaddress', '0xdead')).toBe(ADDRESS);
+    expect(toAbiValue('eaddress', 0xdeadn)).toBe(ADDRESS);
+  });
+});
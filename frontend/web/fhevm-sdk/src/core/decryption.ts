@@ -0,0 +1,93 @@
+/**
+ * FHEVM Decryption - Universal SDK
+ * Public decryption results and type-aware encoding of clear values
+ */
+
+import { ethers } from 'ethers';
+import { FHE_TYPE_ABI, getHandleFheType } from './handles.js';
+import type { FheType } from './encryption.js';
+import type { AclWaitOptions } from './acl.js';
+import type { OperationOptions } from './retry.js';
+
+export type ClearValue = bigint | boolean | string;
+
+/**
+ * Clear value of a decrypted handle, as returned by `toAbiValue`
+ */
+export type FheDecryptedValue<T extends FheType> =
+  T extends 'ebool' ? boolean :
+  T extends 'eaddress' ? string :
+  bigint;
+
+/**
+ * Result signed by the KMS; can be passed to `FHE.checkSignatures` on-chain
+ */
+export interface VerifiablePublicDecryption {
+  verifiable: true;
+  clearValues: { [handle: string]: ClearValue };
+  abiEncodedClearValues: string;
+  decryptionProof: string;
+}
+
+/**
+ * Clear values without a usable KMS proof (pre-v0.9 relayers, or a malformed proof).
+ * Usable for display only: `verifyDecryption` on-chain would always revert.
+ */
+export interface UnverifiablePublicDecryption {
+  verifiable: false;
+  clearValues: { [handle: string]: ClearValue };
+  abiEncodedClearValues: string;
+  decryptionProof: '0x';
+}
+
+export type PublicDecryptionResult = VerifiablePublicDecryption | UnverifiablePublicDecryption;
+
+export interface PublicDecryptOptions extends OperationOptions {
+  /**
+   * Wait for the handles to become publicly decryptable instead of failing
+   * with AclDeniedError, e.g. right after the transaction that marks them
+   */
+  waitForAccess?: boolean | AclWaitOptions;
+}
+
+/**
+ * Coerce a decrypted value to what ethers expects for the FHE type
+ */
+export function toAbiValue(type: FheType, value: ClearValue): bigint | boolean | string {
+  if (type === 'ebool') {
+    return typeof value === 'boolean' ? value : BigInt(value) !== 0n;
+  }
+  if (type === 'eaddress') {
+    return ethers.getAddress(
+      typeof value === 'string' && ethers.isHexString(value) ? ethers.zeroPadValue(value, 20) : ethers.toBeHex(BigInt(value), 20)
+    );
+  }
+  return typeof value === 'boolean' ? (value ? 1n : 0n) : BigInt(value);
+}
+
+/**
+ * ABI-encode clear values in handle order, each with the Solidity type
+ * matching the FHE type stored in its handle
+ */
+export function encodeClearValues(handles: string[], clearValues: { [handle: string]: ClearValue }): string {
+  const types = handles.map((handle) => getHandleFheType(handle));
+  return ethers.AbiCoder.defaultAbiCoder().encode(
+    types.map((type) => FHE_TYPE_ABI[type]),
+    handles.map((handle, i) => toAbiValue(types[i], clearValues[handle]))
+  );
+}
+
+/**
+ * Decode `abiEncodedClearValues` back to clear values keyed by handle
+ */
+export function decodeClearValues(handles: string[], abiEncodedClearValues: string): { [handle: string]: ClearValue } {
+  const decoded = ethers.AbiCoder.defaultAbiCoder().decode(
+    handles.map((handle) => FHE_TYPE_ABI[getHandleFheType(handle)]),
+    abiEncodedClearValues
+  );
+  const clearValues: { [handle: string]: ClearValue } = {};
+  handles.forEach((handle, i) => {
+    clearValues[handle] = decoded[i];
+  });
+  return clearValues;
+}
@@ -0,0 +1,144 @@
+/**
+ * Signer-backed EIP-1193 Provider - Universal SDK
+ * Lets Node.js jobs and scripts drive the relayer with an ethers Wallet or Signer
+ */
+
+import { ethers } from 'ethers';
+import type { Eip1193Provider } from './client.js';
+import { MissingSignerError } from './errors.js';
+
+/**
+ * Convert a JSON-RPC transaction object into an ethers TransactionRequest
+ */
+function toTransactionRequest(tx: Record<string, any>): ethers.TransactionRequest {
+  const quantity = (value?: string) => (value === undefined || value === null ? undefined : BigInt(value));
+
+  return {
+    from: tx.from,
+    to: tx.to,
+    data: tx.data ?? tx.input,
+    value: quantity(tx.value),
+    nonce: tx.nonce === undefined ? undefined : Number(tx.nonce),
+    gasLimit: quantity(tx.gas ?? tx.gasLimit),
+    gasPrice: quantity(tx.gasPrice),
+    maxFeePerGas: quantity(tx.maxFeePerGas),
+    maxPriorityFeePerGas: quantity(tx.maxPriorityFeePerGas),
+    type: tx.type === undefined ? undefined : Number(tx.type),
+    chainId: quantity(tx.chainId),
+    accessList: tx.accessList,
+  };
+}
+
+/**
+ * Decode a personal_sign / eth_sign payload: hex is signed as bytes, anything else as text
+ */
+function toSignableMessage(message: string): string | Uint8Array {
+  return ethers.isHexString(message) ? ethers.getBytes(message) : message;
+}
+
+/**
+ * Build an EIP-1193 provider whose accounts and signatures come from `signer`.
+ * Everything that does not need the key (calls, receipts, code, block number, ...)
+ * is forwarded to the JSON-RPC provider.
+ *
+ * @param signer - Wallet or Signer; it is connected to `provider` if it has none
+ * @param provider - Defaults to `signer.provider`
+ */
+export function createSignerEip1193Provider(
+  signer: ethers.Signer,
+  provider?: ethers.JsonRpcApiProvider
+): Eip1193Provider {
+  const rpc = provider ?? signer.provider;
+  if (!rpc || typeof (rpc as ethers.JsonRpcApiProvider).send !== 'function') {
+    throw new Error('A JSON-RPC provider is required. Connect the signer to a JsonRpcProvider or pass one explicitly.');
+  }
+  const jsonRpc = rpc as ethers.JsonRpcApiProvider;
+  const account = signer.provider ? signer : signer.connect(jsonRpc);
+
+  const assertOwnAddress = async (address: string | undefined) => {
+    const own = await account.getAddress();
+    if (address && ethers.getAddress(address) !== own) {
+      throw new Error(`Signer ${own} cannot sign for ${address}`);
+    }
+  };
+
+  return {
+    request: async ({ method, params = [] }: { method: string; params?: any[] }) => {
+      switch (method) {
+        case 'eth_accounts':
+        case 'eth_requestAccounts':
+          return [await account.getAddress()];
+
+        case 'eth_chainId':
+          return ethers.toQuantity((await jsonRpc.getNetwork()).chainId);
+
+        case 'eth_sendTransaction': {
+          const request = toTransactionRequest(params[0]);
+          await assertOwnAddress(request.from as string | undefined);
+          const tx = await account.sendTransaction(request);
+          return tx.hash;
+        }
+
+        case 'eth_signTransaction': {
+          const request = toTransactionRequest(params[0]);
+          await assertOwnAddress(request.from as string | undefined);
+          return account.signTransaction(await account.populateTransaction(request));
+        }
+
+        case 'personal_sign': {
+          const [message, address] = params;
+          await assertOwnAddress(address);
+          return account.signMessage(toSignableMessage(message));
+        }
+
+        case 'eth_sign': {
+          const [address, message] = params;
+          await assertOwnAddress(address);
+          return account.signMessage(toSignableMessage(message));
+        }
+
+        case 'eth_signTypedData':
+        case 'eth_signTypedData_v4': {
+          const [address, data] = params;
+          await assertOwnAddress(address);
+          const typedData = typeof data === 'string' ? JSON.parse(data) : data;
+          // ethers derives the domain type itself and rejects an explicit one
+          const { EIP712Domain: _domainType, ...types } = typedData.types;
+          return account.signTypedData(typedData.domain, types, typedData.message);
+        }
+
+        default:
+          // eth_call, eth_getTransactionReceipt, eth_getCode, eth_blockNumber, ...
+          return jsonRpc.send(method, params);
+      }
+    },
+    on: () => {},
+    removeListener: () => {}
+  };
+}
+
+/**
+ * EIP-1193 provider without accounts, for read-only Node.js use
+ */
+export function createReadOnlyEip1193Provider(provider: ethers.JsonRpcApiProvider): Eip1193Provider {
+  return {
+    request: async ({ method, params = [] }: { method: string; params?: any[] }) => {
+      switch (method) {
+        case 'eth_accounts':
+        case 'eth_requestAccounts':
+          return [];
+        case 'eth_sendTransaction':
+        case 'eth_signTransaction':
+        case 'personal_sign':
+        case 'eth_sign':
+        case 'eth_signTypedData':
+        case 'eth_signTypedData_v4':
+          throw new MissingSignerError(`${method} requires a signer. Pass one to initializeFheInstance({ signer }).`);
+        default:
+          return provider.send(method, params);
+      }
+    },
+    on: () => {},
+    removeListener: () => {}
+  };
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it, vi } from 'vitest';
+import { addEncryptedEntry, assertValueInRange, encryptEntries, FHE_UINT_BITS, toHandleProofArgs } from './encryption.js';
+
+describe('assertValueInRange', () => {
+  it.each(Object.entries(FHE_UINT_BITS))('accepts the bounds of %s', (type, bits) => {
+    const max = (1n << BigInt(bits)) - 1n;
+    expect(() => assertValueInRange(type as keyof typeof FHE_UINT_BITS, 0)).not.toThrow();
+    expect(() => assertValueInRange(type as keyof typeof FHE_UINT_BITS, max)).not.toThrow();
+  });
+
+  it.each(Object.entries(FHE_UINT_BITS))('rejects values outside %s', (type, bits) => {
+    const max = (1n << BigInt(bits)) - 1n;
+    expect(() => assertValueInRange(type as keyof typeof FHE_UINT_BITS, max + 1n)).toThrow(RangeError);
+    expect(() => assertValueInRange(type as keyof typeof FHE_UINT_BITS, -1n)).toThrow(RangeError);
+  });
+
+  it('rejects unsafe and non-integer numbers', () => {
+    expect(() => assertValueInRange('euint64', 2 ** 53)).toThrow(/safe integer/);
+    expect(() => assertValueInRange('euint32', 1.5)).toThrow(/safe integer/);
+    expect(() => assertValueInRange('euint32', '7')).toThrow(/number or bigint/);
+  });
+
+  it('accepts booleans and 0/1 for ebool', () => {
+    for (const value of [true, false, 0, 1, 0n, 1n]) {
+      expect(() => assertValueInRange('ebool', value)).not.toThrow();
+    }
+    expect(() => assertValueInRange('ebool', 2)).toThrow(/Invalid ebool/);
+    expect(() => assertValueInRange('ebool', 'true')).toThrow(/Invalid ebool/);
+  });
+
+  it('requires a valid address for eaddress', () => {
+    expect(() => assertValueInRange('eaddress', '0x000000000000000000000000000000000000dEaD')).not.toThrow();
+    expect(() => assertValueInRange('eaddress', '0x1234')).toThrow(/Invalid eaddress/);
+    expect(() => assertValueInRange('eaddress', 1n)).toThrow(/Invalid eaddress/);
+  });
+});
+
+describe('addEncryptedEntry', () => {
+  it('validates before adding', () => {
+    const input = { add8: vi.fn() };
+    expect(() => addEncryptedEntry(input, { type: 'euint8', value: 256 })).toThrow(RangeError);
+    expect(input.add8).not.toHaveBeenCalled();
+
+    addEncryptedEntry(input, { type: 'euint8', value: 255 });
+    expect(input.add8).toHaveBeenCalledWith(255);
+  });
+});
+
+describe('encryptEntries', () => {
+  it('hex-encodes handles and proof', async () => {
+    const input = {
+      add32: vi.fn(),
+      addBool: vi.fn(),
+      encrypt: vi.fn().mockResolvedValue({
+        handles: [new Uint8Array(32).fill(1), new Uint8Array(32).fill(2)],
+        inputProof: new Uint8Array([0xab, 0xcd]),
+      }),
+    };
+    const fhe = { createEncryptedInput: vi.fn().mockReturnValue(input) };
+
+    const result = await encryptEntries(fhe, '0xcontract', '0xuser', [
+      { type: 'euint32', value: 5 },
+      { type: 'ebool', value: true },
+    ]);
+
+    expect(fhe.createEncryptedInput).toHaveBeenCalledWith('0xcontract', '0xuser');
+    expect(result.handles).toEqual([`0x${'01'.repeat(32)}`, `0x${'02'.repeat(32)}`]);
+    expect(result.inputProof).toBe('0xabcd');
+  });
+
+  it('needs at least one entry', async () => {
+    await expect(encryptEntries({}, '0xcontract', '0xuser', [])).rejects.toThrow(RangeError);
+  });
+});
+
+describe('toHandleProofArgs', () => {
+  it('pairs every handle with the shared proof', () => {
+    expect(toHandleProofArgs({ handles: ['0x01', '0x02', '0x03'], inputProof: '0xff' })).toEqual([
+      '0x01', '0xff', '0x02', '0xff', '0x03', '0xff',
+    ]);
+  });
+
+  it('returns no arguments for an empty batch', () => {
+    expect(toHandleProofArgs({ handles: [], inputProof: '0xff' })).toEqual([]);
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * FHEVM Encryption - Universal SDK
+ * Typed encrypted input builder covering every FHE width
+ */
+
+import { ethers } from 'ethers';
+import { toFhevmError } from './errors.js';
+
+export type FheType =
+  | 'ebool'
+  | 'euint8'
+  | 'euint16'
+  | 'euint32'
+  | 'euint64'
+  | 'euint128'
+  | 'euint256'
+  | 'eaddress';
+
+/**
+ * Plaintext accepted for each encrypted type
+ */
+export type FheClearValue<T extends FheType> =
+  T extends 'ebool' ? boolean | number | bigint :
+  T extends 'eaddress' ? string :
+  number | bigint;
+
+/**
+ * A single `{ type, value }` entry, discriminated on `type`
+ */
+export type EncryptedInputEntry = {
+  [T in FheType]: { type: T; value: FheClearValue<T> };
+}[FheType];
+
+/**
+ * Hex handle tagged with the FHE type it was encrypted as, so an
+ * `euint64` handle cannot be passed where an `externalEuint32` is expected
+ */
+export type ExternalHandle<T extends FheType = FheType> = `0x${string}` & { readonly __fheType: T };
+
+export type ExternalHandles<E extends readonly EncryptedInputEntry[]> = {
+  -readonly [K in keyof E]: E[K] extends { type: infer T extends FheType } ? ExternalHandle<T> : never;
+};
+
+export interface TypedEncryptedInput<E extends readonly EncryptedInputEntry[]> {
+  handles: ExternalHandles<E>;
+  inputProof: `0x${string}`;
+}
+
+/**
+ * Several handles sharing one input proof
+ */
+export interface BatchEncryptedInput {
+  handles: readonly `0x${string}`[];
+  inputProof: `0x${string}`;
+}
+
+/**
+ * Bit width of each unsigned integer type
+ */
+export const FHE_UINT_BITS = {
+  euint8: 8,
+  euint16: 16,
+  euint32: 32,
+  euint64: 64,
+  euint128: 128,
+  euint256: 256,
+} as const;
+
+/**
+ * Throw a RangeError if `value` cannot be represented by `type`
+ */
+export function assertValueInRange(type: FheType, value: unknown): void {
+  if (type === 'eaddress') {
+    if (typeof value !== 'string' || !ethers.isAddress(value)) {
+      throw new RangeError(`Invalid eaddress value: ${String(value)}`);
+    }
+    return;
+  }
+
+  if (type === 'ebool') {
+    if (typeof value === 'boolean') return;
+    if ((typeof value === 'number' || typeof value === 'bigint') && (value == 0 || value == 1)) return;
+    throw new RangeError(`Invalid ebool value: ${String(value)}`);
+  }
+
+  if (typeof value === 'number' && !Number.isSafeInteger(value)) {
+    throw new RangeError(`${type} value must be a safe integer, got ${value}`);
+  }
+  if (typeof value !== 'number' && typeof value !== 'bigint') {
+    throw new RangeError(`${type} value must be a number or bigint, got ${typeof value}`);
+  }
+
+  const max = (1n << BigInt(FHE_UINT_BITS[type])) - 1n;
+  const big = BigInt(value);
+  if (big < 0n || big > max) {
+    throw new RangeError(`${type} value ${big} is out of range [0, ${max}]`);
+  }
+}
+
+/**
+ * Validate an entry and add it to a relayer input with the matching `addX` call
+ */
+export function addEncryptedEntry(input: any, entry: EncryptedInputEntry) {
+  assertValueInRange(entry.type, entry.value);
+
+  switch (entry.type) {
+    case 'ebool':
+      return input.addBool(entry.value);
+    case 'euint8':
+      return input.add8(entry.value);
+    case 'euint16':
+      return input.add16(entry.value);
+    case 'euint32':
+      return input.add32(entry.value);
+    case 'euint64':
+      return input.add64(entry.value);
+    case 'euint128':
+      return input.add128(entry.value);
+    case 'euint256':
+      return input.add256(entry.value);
+    case 'eaddress':
+      return input.addAddress(entry.value);
+    default:
+      throw new TypeError(`Unsupported FHE type: ${(entry as { type: string }).type}`);
+  }
+}
+
+/**
+ * Encrypt typed entries against a relayer instance and hex-encode the result
+ */
+export async function encryptEntries<const E extends readonly EncryptedInputEntry[]>(
+  fhe: any,
+  contractAddress: string,
+  userAddress: string,
+  entries: E
+): Promise<TypedEncryptedInput<E>> {
+  if (entries.length === 0) {
+    throw new RangeError('At least one entry is required to build an encrypted input');
+  }
+
+  const inputHandle = fhe.createEncryptedInput(contractAddress, userAddress);
+  for (const entry of entries) {
+    addEncryptedEntry(inputHandle, entry);
+  }
+  let result;
+  try {
+    result = await inputHandle.encrypt();
+  } catch (error) {
+    throw toFhevmError(error);
+  }
+
+  return {
+    handles: result.handles.map((handle: Uint8Array | string) => ethers.hexlify(handle)) as ExternalHandles<E>,
+    inputProof: ethers.hexlify(result.inputProof) as `0x${string}`,
+  };
+}
+
+/**
+ * Spread a batch into contract arguments, pairing each handle with the
+ * shared proof: `[handle0, proof, handle1, proof, ...]`. This matches
+ * signatures such as `createDriverProfile(externalEuint32, bytes, externalEuint32, bytes, ...)`.
+ */
+export function toHandleProofArgs(batch: BatchEncryptedInput): `0x${string}`[] {
+  return batch.handles.flatMap((handle) => [handle, batch.inputProof]);
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { ethers } from 'ethers';
+import { ContractRevertedError, FhevmError, decodeRevert, isFhevmError, toFhevmError } from './errors.js';
+
+const IFACE = new ethers.Interface(['error AlreadyVerified(uint256 id)']);
+
+function callException(data: string | null, extra: Partial<ethers.CallExceptionError> = {}) {
+  return ethers.makeError('execution reverted', 'CALL_EXCEPTION', {
+    action: 'call',
+    data,
+    reason: null,
+    transaction: { to: null, data: '0x' },
+    invocation: null,
+    revert: null,
+    ...extra,
+  });
+}
+
+describe('toFhevmError', () => {
+  it('passes FhevmErrors through', () => {
+    const error = new FhevmError('TIMEOUT', 'slow');
+    expect(toFhevmError(error)).toBe(error);
+  });
+
+  it.each([
+    ['an ethers rejection', ethers.makeError('user rejected action', 'ACTION_REJECTED', { action: 'signMessage', reason: 'rejected' })],
+    ['EIP-1193 code 4001', { code: 4001, message: 'denied' }],
+    ['a wrapped 4001', { message: 'could not coalesce error', info: { error: { code: 4001 } } }],
+    ['provider text', new Error('User denied transaction signature')],
+  ])('classifies %s as WALLET_REJECTED', (_, error) => {
+    expect(toFhevmError(error).code).toBe('WALLET_REJECTED');
+  });
+
+  it('reads relayer status from the cause', () => {
+    const unavailable = toFhevmError({ message: 'Bad gateway', cause: { code: 'RELAYER_FETCH_ERROR', status: 502 } });
+    expect(unavailable).toMatchObject({ code: 'RELAYER_UNAVAILABLE', status: 502 });
+
+    const rejected = toFhevmError({ message: 'bad proof', cause: { code: 'RELAYER_FETCH_ERROR', status: 400, operation: 'INPUT_PROOF' } });
+    expect(rejected.code).toBe('PROOF_INVALID');
+  });
+
+  it('maps ethers codes', () => {
+    expect(toFhevmError(ethers.makeError('network changed: 1 => 2', 'NETWORK_ERROR', { event: 'changed' })).code).toBe('WRONG_CHAIN');
+    expect(toFhevmError(ethers.makeError('timeout', 'TIMEOUT', { operation: 'wait', reason: 'timeout' })).code).toBe('TIMEOUT');
+    expect(toFhevmError(callException(null))).toBeInstanceOf(ContractRevertedError);
+  });
+
+  it('handles non-object errors', () => {
+    expect(toFhevmError('boom')).toMatchObject({ code: 'UNKNOWN', message: 'boom' });
+    expect(toFhevmError(null)).toMatchObject({ code: 'UNKNOWN', message: 'null' });
+    expect(toFhevmError({ name: 'AbortError' }).code).toBe('ABORTED');
+  });
+});
+
+describe('decodeRevert', () => {
+  it('uses the reason ethers decoded', () => {
+    const error = decodeRevert(callException(null, { reason: 'Data already verified' }));
+    expect(error.reason).toBe('Data already verified');
+    expect(error.message).toBe('Transaction reverted: Data already verified');
+  });
+
+  it('decodes custom errors with the contract interface', () => {
+    const data = IFACE.encodeErrorResult('AlreadyVerified', [7n]);
+    const error = decodeRevert(callException(data), IFACE);
+
+    expect(error).toMatchObject({ errorName: 'AlreadyVerified', errorArgs: [7n], data });
+    expect(error.message).toBe('Transaction reverted: AlreadyVerified(7)');
+  });
+
+  it('finds revert data on wrapped provider errors', () => {
+    const data = IFACE.encodeErrorResult('AlreadyVerified', [1n]);
+    expect(decodeRevert({ error: { data: { data } } }, IFACE).errorName).toBe('AlreadyVerified');
+    expect(decodeRevert({ info: { error: { data } } }, IFACE).errorName).toBe('AlreadyVerified');
+  });
+
+  it('reports an undecodable revert', () => {
+    const error = decodeRevert(new Error('reverted'));
+    expect(error.message).toBe('Transaction reverted.');
+    expect(isFhevmError(error, 'CONTRACT_REVERTED')).toBe(true);
+  });
+});
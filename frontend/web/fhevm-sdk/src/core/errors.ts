@@ -0,0 +1,282 @@
+/**
+ * FHEVM Errors - Universal SDK
+ * Error classes with stable codes, so apps branch on `error.code`
+ * instead of matching message text
+ */
+
+import { ethers } from 'ethers';
+
+export type FhevmErrorCode =
+  | 'NOT_INITIALIZED'
+  | 'MISSING_SIGNER'
+  | 'MISSING_PROVIDER'
+  | 'RELAYER_UNAVAILABLE'
+  | 'WALLET_REJECTED'
+  | 'INVALID_HANDLE'
+  | 'PROOF_INVALID'
+  | 'WRONG_CHAIN'
+  | 'ACL_DENIED'
+  | 'CONTRACT_REVERTED'
+  | 'TIMEOUT'
+  | 'ABORTED'
+  | 'UNKNOWN';
+
+export interface FhevmErrorOptions {
+  cause?: unknown;
+}
+
+export class FhevmError extends Error {
+  readonly code: FhevmErrorCode;
+  readonly cause?: unknown;
+
+  constructor(code: FhevmErrorCode, message: string, options: FhevmErrorOptions = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.code = code;
+    this.cause = options.cause;
+  }
+}
+
+export class NotInitializedError extends FhevmError {
+  constructor(message = 'FHE instance not initialized. Call initializeFheInstance() first.', options?: FhevmErrorOptions) {
+    super('NOT_INITIALIZED', message, options);
+  }
+}
+
+export class MissingSignerError extends FhevmError {
+  constructor(message = 'A signer is required for this operation.', options?: FhevmErrorOptions) {
+    super('MISSING_SIGNER', message, options);
+  }
+}
+
+export class MissingProviderError extends FhevmError {
+  constructor(message = 'A provider is required to read the host chain.', options?: FhevmErrorOptions) {
+    super('MISSING_PROVIDER', message, options);
+  }
+}
+
+export class RelayerUnavailableError extends FhevmError {
+  /** HTTP status returned by the relayer, when there was a response */
+  readonly status?: number;
+
+  constructor(message = 'Decryption service is temporarily unavailable. Please try again later.', options: FhevmErrorOptions & { status?: number } = {}) {
+    super('RELAYER_UNAVAILABLE', message, options);
+    this.status = options.status;
+  }
+}
+
+export class WalletRejectedError extends FhevmError {
+  constructor(message = 'Request rejected in wallet.', options?: FhevmErrorOptions) {
+    super('WALLET_REJECTED', message, options);
+  }
+}
+
+export class InvalidHandleError extends FhevmError {
+  readonly handle?: string;
+
+  constructor(message = 'Invalid ciphertext handle.', options: FhevmErrorOptions & { handle?: string } = {}) {
+    super('INVALID_HANDLE', message, options);
+    this.handle = options.handle;
+  }
+}
+
+export class ProofInvalidError extends FhevmError {
+  constructor(message = 'Proof was rejected.', options?: FhevmErrorOptions) {
+    super('PROOF_INVALID', message, options);
+  }
+}
+
+export class WrongChainError extends FhevmError {
+  readonly chainId?: number;
+  readonly expectedChainId?: number;
+
+  constructor(message = 'Wallet is connected to an unsupported chain.', options: FhevmErrorOptions & { chainId?: number; expectedChainId?: number } = {}) {
+    super('WRONG_CHAIN', message, options);
+    this.chainId = options.chainId;
+    this.expectedChainId = options.expectedChainId;
+  }
+}
+
+export class AclDeniedError extends FhevmError {
+  readonly handle?: string;
+
+  constructor(message = 'Not authorized to decrypt this handle.', options: FhevmErrorOptions & { handle?: string } = {}) {
+    super('ACL_DENIED', message, options);
+    this.handle = options.handle;
+  }
+}
+
+export class ContractRevertedError extends FhevmError {
+  /** `require` message, when the revert carried one */
+  readonly reason?: string;
+  /** Custom error name, e.g. `InvalidKMSSignatures` */
+  readonly errorName?: string;
+  readonly errorArgs?: readonly unknown[];
+  /** Raw revert data */
+  readonly data?: string;
+
+  constructor(
+    message = 'Transaction reverted.',
+    options: FhevmErrorOptions & { reason?: string; errorName?: string; errorArgs?: readonly unknown[]; data?: string } = {}
+  ) {
+    super('CONTRACT_REVERTED', message, options);
+    this.reason = options.reason;
+    this.errorName = options.errorName;
+    this.errorArgs = options.errorArgs;
+    this.data = options.data;
+  }
+}
+
+export class TimeoutError extends FhevmError {
+  readonly timeoutMs?: number;
+
+  constructor(message = 'Operation timed out.', options: FhevmErrorOptions & { timeoutMs?: number } = {}) {
+    super('TIMEOUT', message, options);
+    this.timeoutMs = options.timeoutMs;
+  }
+}
+
+export class AbortedError extends FhevmError {
+  constructor(message = 'Operation was aborted.', options?: FhevmErrorOptions) {
+    super('ABORTED', message, options);
+  }
+}
+
+export function isFhevmError(error: unknown, code?: FhevmErrorCode): error is FhevmError {
+  return error instanceof FhevmError && (code === undefined || error.code === code);
+}
+
+const RELAYER_UNAVAILABLE_STATUSES = new Set([408, 429]);
+
+/**
+ * `value[key]` when `value` is an object that has it; errors from wallets and
+ * providers come in many shapes, so nothing about them is assumed
+ */
+function prop(value: unknown, key: string): unknown {
+  return typeof value === 'object' && value !== null && key in value ? Reflect.get(value, key) : undefined;
+}
+
+function messageOf(error: unknown): string {
+  const message = prop(error, 'message');
+  return typeof message === 'string' ? message : String(error);
+}
+
+/**
+ * Find revert data on an ethers error or a wrapped provider error
+ */
+function revertDataOf(error: unknown): string | undefined {
+  const nested = prop(error, 'error');
+  const candidates = [
+    prop(error, 'data'),
+    prop(nested, 'data'),
+    prop(prop(prop(error, 'info'), 'error'), 'data'),
+    prop(prop(nested, 'data'), 'data'),
+  ];
+  return candidates.find((data): data is string => typeof data === 'string' && ethers.isHexString(data));
+}
+
+/**
+ * Decode an ethers CALL_EXCEPTION, using `iface` for the contract's custom errors
+ */
+export function decodeRevert(error: unknown, iface?: ethers.Interface): ContractRevertedError {
+  const data = revertDataOf(error);
+  const callException = ethers.isError(error, 'CALL_EXCEPTION') ? error : undefined;
+  let reason: string | undefined = callException?.reason ?? undefined;
+  let errorName: string | undefined = callException?.revert?.name;
+  let errorArgs: readonly unknown[] | undefined = callException?.revert ? [...callException.revert.args] : undefined;
+
+  if (data && iface && !errorName) {
+    try {
+      const parsed = iface.parseError(data);
+      if (parsed) {
+        errorName = parsed.name;
+        errorArgs = [...parsed.args];
+      }
+    } catch {
+      // Not one of the contract's errors
+    }
+  }
+  if (errorName === 'Error' && errorArgs?.length) {
+    reason = String(errorArgs[0]);
+  }
+
+  const detail = reason ?? (errorName ? `${errorName}(${(errorArgs ?? []).map(String).join(', ')})` : undefined);
+  return new ContractRevertedError(detail ? `Transaction reverted: ${detail}` : 'Transaction reverted.', {
+    cause: error,
+    reason,
+    errorName,
+    errorArgs,
+    data,
+  });
+}
+
+/**
+ * Map any error thrown by the relayer SDK, the wallet or ethers to an FhevmError.
+ * FhevmErrors pass through unchanged; unrecognized errors get code `UNKNOWN`.
+ *
+ * @param iface - Contract interface used to decode custom revert errors
+ */
+export function toFhevmError(error: unknown, iface?: ethers.Interface): FhevmError {
+  if (error instanceof FhevmError) return error;
+
+  const message = messageOf(error);
+  const cause = prop(error, 'cause');
+
+  if (prop(error, 'name') === 'AbortError') {
+    return new AbortedError(undefined, { cause: error });
+  }
+
+  // Wallet rejection: ethers v6, EIP-1193 code 4001, or provider text
+  if (ethers.isError(error, 'ACTION_REJECTED') || prop(error, 'code') === 4001
+    || prop(prop(prop(error, 'info'), 'error'), 'code') === 4001
+    || /user (rejected|denied)/i.test(message)) {
+    return new WalletRejectedError('Request rejected in wallet.', { cause: error });
+  }
+
+  // Relayer HTTP failures carry { code, status } in their cause
+  const causeCode = prop(cause, 'code');
+  if (typeof causeCode === 'string' && causeCode.startsWith('RELAYER_')) {
+    const causeStatus = prop(cause, 'status');
+    const status = typeof causeStatus === 'number' ? causeStatus : undefined;
+    const unavailable = causeCode === 'RELAYER_UNKNOWN_ERROR'
+      || status === undefined
+      || status >= 500
+      || RELAYER_UNAVAILABLE_STATUSES.has(status);
+    if (unavailable) {
+      return new RelayerUnavailableError(undefined, { cause: error, status });
+    }
+    if (prop(cause, 'operation') === 'INPUT_PROOF') {
+      return new ProofInvalidError(`Relayer rejected the input proof: ${message}`, { cause: error });
+    }
+  }
+
+  if (/Failed to fetch|NetworkError|fetch failed|ECONNREFUSED|ETIMEDOUT/i.test(message)) {
+    return new RelayerUnavailableError(undefined, { cause: error });
+  }
+
+  if (/not authorized to user decrypt|not allowed for public decryption/i.test(message)) {
+    return new AclDeniedError(message, { cause: error });
+  }
+
+  if (/Handle .* is not of valid (length|type)|Invalid ciphertext handle|Unsupported handle type/i.test(message)) {
+    return new InvalidHandleError(message, { cause: error });
+  }
+
+  if (/not in the list of (KMS|coprocessor) signers|Duplicate (KMS|coprocessor) signer/i.test(message)) {
+    return new ProofInvalidError(message, { cause: error });
+  }
+
+  if (ethers.isError(error, 'NETWORK_ERROR') && /network changed/i.test(message)) {
+    return new WrongChainError('Wallet switched networks during the request.', { cause: error });
+  }
+
+  if (ethers.isError(error, 'TIMEOUT')) {
+    return new TimeoutError(message, { cause: error });
+  }
+
+  if (ethers.isError(error, 'CALL_EXCEPTION')) {
+    return decodeRevert(error, iface);
+  }
+
+  return new FhevmError('UNKNOWN', message, { cause: error });
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it, vi } from 'vitest';
+import { toEventIterator, type FhevmEventHandlers } from './events.js';
+import { AbortedError, FhevmError } from './errors.js';
+
+function fakeSubscription<T>() {
+  let handlers!: FhevmEventHandlers<T>;
+  const unsubscribe = vi.fn();
+  const subscribe = vi.fn((next: FhevmEventHandlers<T>) => {
+    handlers = next;
+    return unsubscribe;
+  });
+  return { subscribe, unsubscribe, emit: (event: T) => handlers.onEvent(event), handlers: () => handlers };
+}
+
+describe('toEventIterator', () => {
+  it('yields buffered and later events in order', async () => {
+    const source = fakeSubscription<number>();
+    const events = toEventIterator(source.subscribe);
+
+    source.emit(1);
+    source.emit(2);
+    expect(await events.next()).toEqual({ value: 1, done: false });
+    expect(await events.next()).toEqual({ value: 2, done: false });
+
+    const pending = events.next();
+    source.emit(3);
+    expect(await pending).toEqual({ value: 3, done: false });
+  });
+
+  it('finishes after onDone once the buffer is drained', async () => {
+    const source = fakeSubscription<string>();
+    const events = toEventIterator(source.subscribe);
+
+    source.emit('a');
+    source.handlers().onDone?.();
+    source.emit('ignored');
+
+    const received: string[] = [];
+    for await (const event of events) received.push(event);
+    expect(received).toEqual(['a']);
+    expect(source.unsubscribe).toHaveBeenCalledTimes(1);
+  });
+
+  it('throws the subscription error after the buffered events', async () => {
+    const source = fakeSubscription<string>();
+    const events = toEventIterator(source.subscribe);
+    const error = new FhevmError('UNKNOWN', 'provider went away');
+
+    source.emit('a');
+    source.handlers().onError?.(error);
+
+    expect(await events.next()).toEqual({ value: 'a', done: false });
+    await expect(events.next()).rejects.toBe(error);
+    expect(await events.next()).toEqual({ value: undefined, done: true });
+    expect(source.unsubscribe).toHaveBeenCalledTimes(1);
+  });
+
+  it('unsubscribes when the loop breaks', async () => {
+    const source = fakeSubscription<number>();
+    const events = toEventIterator(source.subscribe);
+    source.emit(1);
+    source.emit(2);
+
+    for await (const event of events) {
+      expect(event).toBe(1);
+      break;
+    }
+
+    expect(source.unsubscribe).toHaveBeenCalledTimes(1);
+    expect(await events.next()).toEqual({ value: undefined, done: true });
+  });
+
+  it('rejects a waiting next() with AbortedError when the signal fires', async () => {
+    const source = fakeSubscription<number>();
+    const controller = new AbortController();
+    const events = toEventIterator(source.subscribe, controller.signal);
+
+    const pending = events.next();
+    controller.abort();
+
+    await expect(pending).rejects.toBeInstanceOf(AbortedError);
+    expect(source.unsubscribe).toHaveBeenCalledTimes(1);
+  });
+
+  it('throws AbortedError right away for an aborted signal', async () => {
+    const source = fakeSubscription<number>();
+    const events = toEventIterator(source.subscribe, AbortSignal.abort());
+
+    await expect(events.next()).rejects.toBeInstanceOf(AbortedError);
+    expect(source.unsubscribe).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * FHEVM Contract Events - Universal SDK
+ * Historical and live contract events, delivered in block order
+ * as a callback stream or an async iterator
+ */
+
+import { ethers } from 'ethers';
+import { AbortedError, toFhevmError, type FhevmError } from './errors.js';
+import type { ClearValue } from './decryption.js';
+
+export interface FhevmEventOptions {
+  /** Replay events from this block first; omit to only receive new events */
+  fromBlock?: ethers.BlockTag;
+  /** Stop after this block instead of listening for new events */
+  toBlock?: ethers.BlockTag;
+  /** Values for the event's indexed arguments, in order, as for `contract.filters.Name(...)` */
+  filter?: readonly unknown[];
+  /** User-decrypt the encrypted handles in each payload */
+  decrypt?: boolean;
+  /** Signer for `decrypt`; defaults to the contract runner, then the client's signer */
+  signer?: ethers.Signer;
+  signal?: AbortSignal;
+}
+
+export interface FhevmEvent<Args = Record<string, any>, ClearValues = Record<string, ClearValue>> {
+  name: string;
+  args: Args;
+  /** Clear values of the encrypted arguments by name; filled in when `decrypt` is set */
+  clearValues: Partial<ClearValues>;
+  /** Why `decrypt` failed, e.g. an AclDeniedError; the event is delivered regardless */
+  decryptError?: FhevmError;
+  blockNumber: number;
+  transactionHash: string;
+  log: ethers.EventLog;
+}
+
+export interface FhevmEventHandlers<T> {
+  onEvent: (event: T) => void | Promise<void>;
+  onError?: (error: FhevmError) => void;
+  /** Called once a bounded (`toBlock`) range has been delivered */
+  onDone?: () => void;
+}
+
+function logKey(log: ethers.Log) {
+  return `${log.transactionHash}:${log.index}`;
+}
+
+/**
+ * Event arguments by name; unnamed arguments become `arg0`, `arg1`, ...
+ */
+export function eventArgs(log: ethers.EventLog): Record<string, any> {
+  return Object.fromEntries(log.fragment.inputs.map((input, i) => [input.name || `arg${i}`, log.args[i]]));
+}
+
+/**
+ * Deliver `eventName` logs of `contract` to `handlers.onEvent`, one at a time.
+ * With `fromBlock` the range is replayed first and live events arriving
+ * meanwhile are held back, so nothing is missed or delivered twice.
+ *
+ * @returns Function that stops the subscription
+ */
+export function watchContractEvent<T>(
+  contract: ethers.BaseContract,
+  eventName: string,
+  toEvent: (log: ethers.EventLog) => T | Promise<T>,
+  handlers: FhevmEventHandlers<T>,
+  options: Pick<FhevmEventOptions, 'fromBlock' | 'toBlock' | 'filter' | 'signal'> = {}
+): () => void {
+  const { fromBlock, toBlock, signal } = options;
+  const filter = contract.filters[eventName](...(options.filter ?? []));
+  const live = toBlock === undefined;
+  let held: ethers.EventLog[] | null = fromBlock !== undefined || toBlock !== undefined ? [] : null;
+  let stopped = false;
+  let queue = Promise.resolve();
+
+  const fail = (error: unknown) => {
+    if (!stopped) handlers.onError?.(toFhevmError(error, contract.interface));
+  };
+
+  const deliver = (log: ethers.EventLog) => {
+    queue = queue
+      .then(async () => {
+        if (stopped) return;
+        const event = await toEvent(log);
+        if (!stopped) await handlers.onEvent(event);
+      })
+      .catch(fail);
+  };
+
+  const listener = (...args: any[]) => {
+    const log = (args[args.length - 1] as ethers.ContractEventPayload).log;
+    if (held) held.push(log);
+    else deliver(log);
+  };
+
+  const stop = () => {
+    if (stopped) return;
+    stopped = true;
+    signal?.removeEventListener('abort', stop);
+    if (live) contract.off(filter, listener).catch(() => {});
+  };
+
+  if (signal?.aborted) return () => {};
+  signal?.addEventListener('abort', stop, { once: true });
+
+  if (live) {
+    contract.on(filter, listener).catch(fail);
+  }
+
+  if (held) {
+    contract.queryFilter(filter, fromBlock ?? 0, toBlock ?? 'latest').then((logs) => {
+      const replayed = new Set<string>();
+      for (const log of logs) {
+        if (!(log instanceof ethers.EventLog)) continue;
+        replayed.add(logKey(log));
+        deliver(log);
+      }
+      const pending = held ?? [];
+      held = null;
+      pending.filter((log) => !replayed.has(logKey(log))).forEach(deliver);
+
+      if (!live) {
+        queue = queue.then(() => {
+          if (!stopped) {
+            stopped = true;
+            handlers.onDone?.();
+          }
+        });
+      }
+    }, fail);
+  }
+
+  return stop;
+}
+
+/**
+ * Adapt a callback subscription to an async iterator. Breaking out of
+ * `for await` unsubscribes; aborting `signal` makes the loop throw AbortedError.
+ */
+export function toEventIterator<T>(
+  subscribe: (handlers: FhevmEventHandlers<T>) => () => void,
+  signal?: AbortSignal
+): AsyncIterableIterator<T> {
+  const buffered: T[] = [];
+  const waiting: Array<{ resolve: (result: IteratorResult<T>) => void; reject: (error: unknown) => void }> = [];
+  let failure: FhevmError | undefined;
+  let finished = false;
+
+  const flush = () => {
+    while (waiting.length > 0) {
+      if (buffered.length > 0) {
+        waiting.shift()!.resolve({ value: buffered.shift()!, done: false });
+      } else if (failure) {
+        const error = failure;
+        failure = undefined;
+        finished = true;
+        waiting.shift()!.reject(error);
+      } else if (finished) {
+        waiting.shift()!.resolve({ value: undefined, done: true });
+      } else {
+        return;
+      }
+    }
+  };
+
+  const end = (error?: FhevmError) => {
+    if (finished || failure) return;
+    unsubscribe();
+    signal?.removeEventListener('abort', onAbort);
+    if (error) failure = error;
+    else finished = true;
+    flush();
+  };
+
+  const onAbort = () => end(new AbortedError());
+
+  const unsubscribe = subscribe({
+    onEvent: (event) => {
+      if (finished || failure) return;
+      buffered.push(event);
+      flush();
+    },
+    onError: (error) => end(error),
+    onDone: () => end(),
+  });
+
+  if (signal?.aborted) onAbort();
+  else signal?.addEventListener('abort', onAbort, { once: true });
+
+  return {
+    next() {
+      return new Promise<IteratorResult<T>>((resolve, reject) => {
+        waiting.push({ resolve, reject });
+        flush();
+      });
+    },
+    async return() {
+      end();
+      buffered.length = 0;
+      flush();
+      return { value: undefined, done: true };
+    },
+    [Symbol.asyncIterator]() {
+      return this;
+    },
+  };
+}
@@ -0,0 +1,92 @@
+/**
+ * FHEVM Worker Entry - Universal SDK
+ * Hosts the relayer instance off the main thread, driven by the proxy in worker.ts.
+ * Chain reads are forwarded back to the main thread's EIP-1193 provider.
+ */
+
+import {
+  deserializeError,
+  serializeError,
+  type EncryptedInputOp,
+  type WorkerCallMethod,
+  type WorkerRequest,
+  type WorkerResponse,
+} from './workerProtocol.js';
+import { initRelayerSdk, loadRelayerSdk, type RelayerSdkOptions } from './relayerSdk.js';
+
+// The relayer SDK's web entry assigns window.TFHE and window.TKMS when it is
+// imported; a worker has no window, so alias it before loadRelayerSdk runs
+if (typeof window === 'undefined') {
+  (globalThis as any).window = globalThis;
+}
+
+const scope = self as unknown as {
+  postMessage(message: WorkerResponse): void;
+  addEventListener(type: 'message', listener: (event: MessageEvent<WorkerRequest>) => void): void;
+};
+
+let instance: any = null;
+let nextRpcId = 0;
+const pendingRpc = new Map<number, { resolve: (value: any) => void; reject: (error: any) => void }>();
+
+/**
+ * EIP-1193 provider whose requests are answered by the main thread
+ */
+const provider = {
+  request({ method, params }: { method: string; params?: any[] }) {
+    const rpcId = nextRpcId++;
+    return new Promise((resolve, reject) => {
+      pendingRpc.set(rpcId, { resolve, reject });
+      scope.postMessage({ type: 'rpc', rpcId, method, params });
+    });
+  },
+};
+
+async function initialize(config: Record<string, any>, relayerSdk: RelayerSdkOptions) {
+  const sdk = await loadRelayerSdk(relayerSdk);
+  await initRelayerSdk(sdk, relayerSdk);
+  instance = await sdk.createInstance({ ...config, network: provider });
+}
+
+async function call(method: WorkerCallMethod, args: any[]) {
+  if (!instance) throw new Error('FHE instance not initialized in worker');
+  return instance[method](...args);
+}
+
+async function encrypt(contractAddress: string, userAddress: string, ops: EncryptedInputOp[]) {
+  if (!instance) throw new Error('FHE instance not initialized in worker');
+  const input = instance.createEncryptedInput(contractAddress, userAddress);
+  for (const op of ops) {
+    input[op.method](op.value);
+  }
+  return input.encrypt();
+}
+
+scope.addEventListener('message', async (event) => {
+  const request = event.data;
+
+  if (request.type === 'rpcResult') {
+    const pending = pendingRpc.get(request.rpcId);
+    pendingRpc.delete(request.rpcId);
+    if (request.error) {
+      pending?.reject(deserializeError(request.error));
+    } else {
+      pending?.resolve(request.result);
+    }
+    return;
+  }
+
+  try {
+    let result: any;
+    if (request.type === 'init') {
+      await initialize(request.config, request.relayerSdk);
+    } else if (request.type === 'call') {
+      result = await call(request.method, request.args);
+    } else {
+      result = await encrypt(request.contractAddress, request.userAddress, request.ops);
+    }
+    scope.postMessage({ type: 'result', id: request.id, result });
+  } catch (error) {
+    scope.postMessage({ type: 'error', id: request.id, error: serializeError(error) });
+  }
+});
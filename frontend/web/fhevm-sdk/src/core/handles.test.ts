@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { ethers } from 'ethers';
+import { formatHandle, getHandleFheType, parseHandle, validateHandle } from './handles.js';
+import { InvalidHandleError, WrongChainError } from './errors.js';
+import { SEPOLIA_NETWORK } from './networks.js';
+
+const HASH = '0x' + '1a'.repeat(21);
+
+function makeHandle({ index = 0, chainId = 11155111, typeId = 4, version = 0 } = {}) {
+  return ethers.concat([
+    HASH,
+    ethers.toBeHex(index, 1),
+    ethers.toBeHex(chainId, 8),
+    ethers.toBeHex(typeId, 1),
+    ethers.toBeHex(version, 1),
+  ]);
+}
+
+describe('parseHandle', () => {
+  it('decodes an input handle', () => {
+    const handle = makeHandle({ index: 2, typeId: 5, version: 1 });
+
+    expect(parseHandle(handle)).toEqual({
+      handle,
+      hash: HASH,
+      fheType: 'euint64',
+      chainId: 11155111,
+      origin: 'input',
+      index: 2,
+      version: 1,
+    });
+  });
+
+  it('decodes a computed handle', () => {
+    const parsed = parseHandle(makeHandle({ index: 0xff, typeId: 0 }));
+
+    expect(parsed.origin).toBe('computed');
+    expect(parsed.index).toBeUndefined();
+    expect(parsed.fheType).toBe('ebool');
+  });
+
+  it('accepts bytes and normalizes the hex', () => {
+    const handle = makeHandle();
+
+    expect(parseHandle(ethers.getBytes(handle)).handle).toBe(handle);
+    expect(parseHandle(handle.toUpperCase().replace('0X', '0x')).handle).toBe(handle);
+  });
+
+  it('reads 64-bit chain ids', () => {
+    expect(parseHandle(makeHandle({ chainId: 2 ** 40 + 5 })).chainId).toBe(2 ** 40 + 5);
+  });
+
+  it('rejects handles that are not 32 bytes', () => {
+    expect(() => parseHandle('0x1234')).toThrow(InvalidHandleError);
+    expect(() => parseHandle(makeHandle() + '00')).toThrow(InvalidHandleError);
+    expect(() => parseHandle('not a handle')).toThrow(InvalidHandleError);
+  });
+
+  it('rejects unknown and deprecated type ids', () => {
+    expect(() => parseHandle(makeHandle({ typeId: 1 }))).toThrow(/Unsupported FHE type id 1/);
+    expect(() => getHandleFheType(makeHandle({ typeId: 9 }))).toThrow(InvalidHandleError);
+  });
+});
+
+describe('validateHandle', () => {
+  it('accepts handles from the expected chain', () => {
+    const handle = makeHandle();
+
+    expect(validateHandle(handle, SEPOLIA_NETWORK).chainId).toBe(11155111);
+    expect(validateHandle(handle, 11155111).handle).toBe(handle);
+  });
+
+  it('throws WrongChainError for handles from another chain', () => {
+    const handle = makeHandle({ chainId: 31337 });
+
+    let error: unknown;
+    try {
+      validateHandle(handle, SEPOLIA_NETWORK);
+    } catch (err) {
+      error = err;
+    }
+    expect(error).toBeInstanceOf(WrongChainError);
+    expect(error).toMatchObject({ code: 'WRONG_CHAIN', chainId: 31337, expectedChainId: 11155111 });
+  });
+});
+
+describe('formatHandle', () => {
+  it('describes input handles', () => {
+    const handle = makeHandle({ index: 0 });
+    expect(formatHandle(handle)).toBe(`euint32 input #0 on chain 11155111 (${handle.slice(0, 6)}…${handle.slice(-4)}, v0)`);
+  });
+
+  it('describes computed handles and accepts parsed handles', () => {
+    const parsed = parseHandle(makeHandle({ index: 0xff, typeId: 7, chainId: 31337, version: 1 }));
+    expect(formatHandle(parsed)).toMatch(/^eaddress computed on chain 31337 \(0x1a1a…0701, v1\)$/);
+  });
+});
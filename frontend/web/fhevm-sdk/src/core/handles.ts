@@ -0,0 +1,134 @@
+/**
+ * FHEVM Ciphertext Handles - Universal SDK
+ * Reads the metadata packed into 32-byte handles
+ */
+
+import { ethers } from 'ethers';
+import type { FheType } from './encryption.js';
+import { InvalidHandleError, WrongChainError } from './errors.js';
+import type { FhevmNetworkConfig } from './networks.js';
+
+/**
+ * Handle layout (32 bytes):
+ *   [0..20]  hash of the ciphertext (or of the input proof, for inputs)
+ *   [21]     index within the input proof, 0xff for computed handles
+ *   [22..29] host chain id, uint64 big-endian
+ *   [30]     FheType id
+ *   [31]     handle version
+ */
+const COMPUTED_HANDLE_INDEX = 0xff;
+
+/**
+ * FheType ids as encoded in byte 30 of a handle (id 1, euint4, is deprecated)
+ */
+export const FHE_TYPE_IDS: Record<FheType, number> = {
+  ebool: 0,
+  euint8: 2,
+  euint16: 3,
+  euint32: 4,
+  euint64: 5,
+  euint128: 6,
+  eaddress: 7,
+  euint256: 8,
+};
+
+const FHE_TYPES_BY_ID = new Map<number, FheType>(
+  Object.entries(FHE_TYPE_IDS).map(([type, id]) => [id, type as FheType])
+);
+
+/**
+ * Solidity type a decrypted value of each FHE type is ABI-encoded as
+ */
+export const FHE_TYPE_ABI: Record<FheType, string> = {
+  ebool: 'bool',
+  euint8: 'uint8',
+  euint16: 'uint16',
+  euint32: 'uint32',
+  euint64: 'uint64',
+  euint128: 'uint128',
+  eaddress: 'address',
+  euint256: 'uint256',
+};
+
+/**
+ * Decode a handle to its 32 bytes, or throw InvalidHandleError
+ */
+export function handleToBytes(handle: string | Uint8Array): Uint8Array {
+  const hex = typeof handle === 'string' ? handle : ethers.hexlify(handle);
+  if (!ethers.isHexString(hex, 32)) {
+    throw new InvalidHandleError(`Handle ${hex} is not a 32-byte hex string`, { handle: hex });
+  }
+  return ethers.getBytes(hex);
+}
+
+/**
+ * FHE type encoded in a handle
+ */
+export function getHandleFheType(handle: string | Uint8Array): FheType {
+  const bytes = handleToBytes(handle);
+  const type = FHE_TYPES_BY_ID.get(bytes[30]);
+  if (!type) {
+    throw new InvalidHandleError(`Unsupported FHE type id ${bytes[30]} in handle ${ethers.hexlify(bytes)}`, {
+      handle: ethers.hexlify(bytes),
+    });
+  }
+  return type;
+}
+
+export interface ParsedHandle {
+  handle: `0x${string}`;
+  /** First 21 bytes */
+  hash: `0x${string}`;
+  fheType: FheType;
+  chainId: number;
+  /** `input` handles come from an encrypted input proof; `computed` ones from FHE operations */
+  origin: 'input' | 'computed';
+  /** Position within the input proof; undefined for computed handles */
+  index?: number;
+  version: number;
+}
+
+/**
+ * Decode the metadata packed into a handle, or throw InvalidHandleError
+ */
+export function parseHandle(handle: string | Uint8Array): ParsedHandle {
+  const bytes = handleToBytes(handle);
+  const index = bytes[21];
+  const computed = index === COMPUTED_HANDLE_INDEX;
+
+  return {
+    handle: ethers.hexlify(bytes) as `0x${string}`,
+    hash: ethers.hexlify(bytes.subarray(0, 21)) as `0x${string}`,
+    fheType: getHandleFheType(bytes),
+    chainId: Number(ethers.toBigInt(bytes.subarray(22, 30))),
+    origin: computed ? 'computed' : 'input',
+    index: computed ? undefined : index,
+    version: bytes[31],
+  };
+}
+
+/**
+ * Parse a handle and check it was produced on `network`.
+ * Throws WrongChainError for handles from another host chain.
+ */
+export function validateHandle(handle: string | Uint8Array, network: FhevmNetworkConfig | number): ParsedHandle {
+  const parsed = parseHandle(handle);
+  const expectedChainId = typeof network === 'number' ? network : network.chainId;
+  if (parsed.chainId !== expectedChainId) {
+    throw new WrongChainError(`Handle ${parsed.handle} belongs to chain ${parsed.chainId}, expected ${expectedChainId}`, {
+      chainId: parsed.chainId,
+      expectedChainId,
+    });
+  }
+  return parsed;
+}
+
+/**
+ * Short human-readable description, e.g. `euint32 input #0 on chain 11155111 (0x1a2b…9f00, v0)`
+ */
+export function formatHandle(handle: string | Uint8Array | ParsedHandle): string {
+  const parsed = typeof handle === 'object' && 'fheType' in handle ? handle : parseHandle(handle);
+  const origin = parsed.origin === 'input' ? `input #${parsed.index}` : 'computed';
+  const short = `${parsed.handle.slice(0, 6)}…${parsed.handle.slice(-4)}`;
+  return `${parsed.fheType} ${origin} on chain ${parsed.chainId} (${short}, v${parsed.version})`;
+}
@@ -5,6 +5,23 @@
 
 // Core FHEVM functionality - All functions consolidated in fhevm.ts
 export * from './fhevm.js';
+export * from './client.js';
+export * from './networks.js';
+export * from './eip1193.js';
+export * from './mock.js';
+export * from './sessions.js';
+export * from './logger.js';
+export * from './errors.js';
+export * from './retry.js';
+export * from './encryption.js';
+export * from './decryption.js';
+export * from './acl.js';
+export * from './kms.js';
+export * from './handles.js';
+export * from './abi.js';
+export * from './events.js';
 export * from './contracts.js';
 
 
+export * from './transactions.js';
+export * from './viem.js';
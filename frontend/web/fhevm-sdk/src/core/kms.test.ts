@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { ethers } from 'ethers';
+import { assertKmsSignatures, parseDecryptionProof, PUBLIC_DECRYPT_EIP712_TYPES, recoverDecryptionSigners } from './kms.js';
+import { ProofInvalidError } from './errors.js';
+import { SEPOLIA_NETWORK } from './networks.js';
+
+const KMS_SIGNERS = [1, 2, 3].map((i) => new ethers.Wallet(ethers.toBeHex(i, 32)));
+const OUTSIDER = new ethers.Wallet(ethers.toBeHex(99, 32));
+
+const HANDLES = ['0x' + 'ab'.repeat(32)];
+const CLEAR_VALUES = ethers.AbiCoder.defaultAbiCoder().encode(['uint32'], [42]);
+const EXTRA_DATA = '0x00';
+
+const SIGNER_SET = { signers: KMS_SIGNERS.map((wallet) => wallet.address), threshold: 2 };
+
+const DOMAIN = {
+  name: 'Decryption',
+  version: '1',
+  chainId: SEPOLIA_NETWORK.gatewayChainId,
+  verifyingContract: SEPOLIA_NETWORK.verifyingContractAddressDecryption,
+};
+
+function sign(wallet: ethers.Wallet, decryptedResult = CLEAR_VALUES) {
+  return wallet.signTypedData(DOMAIN, PUBLIC_DECRYPT_EIP712_TYPES, {
+    ctHandles: HANDLES,
+    decryptedResult,
+    extraData: EXTRA_DATA,
+  });
+}
+
+function packProof(signatures: string[], extraData = EXTRA_DATA) {
+  return ethers.solidityPacked(
+    ['uint8', ...signatures.map(() => 'bytes'), 'bytes'],
+    [signatures.length, ...signatures, extraData]
+  );
+}
+
+describe('parseDecryptionProof', () => {
+  it('splits signatures and extra data', async () => {
+    const signatures = [await sign(KMS_SIGNERS[0]), await sign(KMS_SIGNERS[1])];
+
+    expect(parseDecryptionProof(packProof(signatures, '0x0102'))).toEqual({ signatures, extraData: '0x0102' });
+  });
+
+  it('accepts a proof without signatures', () => {
+    expect(parseDecryptionProof('0x00')).toEqual({ signatures: [], extraData: '0x' });
+  });
+
+  it('rejects empty and truncated proofs', async () => {
+    expect(() => parseDecryptionProof('0x')).toThrow(/empty/);
+
+    const truncated = packProof([await sign(KMS_SIGNERS[0])], '0x').slice(0, -2);
+    expect(() => parseDecryptionProof(truncated)).toThrow(ProofInvalidError);
+    expect(() => parseDecryptionProof('0x02' + '11'.repeat(65))).toThrow(/declares 2 signatures but holds 1/);
+  });
+});
+
+describe('recoverDecryptionSigners', () => {
+  it('recovers signers in proof order', async () => {
+    const proof = packProof([await sign(KMS_SIGNERS[2]), await sign(KMS_SIGNERS[0])]);
+
+    expect(recoverDecryptionSigners(SEPOLIA_NETWORK, HANDLES, CLEAR_VALUES, proof)).toEqual([
+      KMS_SIGNERS[2].address,
+      KMS_SIGNERS[0].address,
+    ]);
+  });
+
+  it('reports malformed signatures as ProofInvalidError', () => {
+    const proof = packProof(['0x' + '00'.repeat(65)]);
+    expect(() => recoverDecryptionSigners(SEPOLIA_NETWORK, HANDLES, CLEAR_VALUES, proof)).toThrow(/malformed signature/);
+  });
+});
+
+describe('assertKmsSignatures', () => {
+  it('accepts a threshold of distinct KMS signatures', async () => {
+    const proof = packProof([await sign(KMS_SIGNERS[0]), await sign(KMS_SIGNERS[1])]);
+
+    expect(() => assertKmsSignatures(SEPOLIA_NETWORK, SIGNER_SET, HANDLES, CLEAR_VALUES, proof)).not.toThrow();
+  });
+
+  it('rejects proofs below the threshold', async () => {
+    const proof = packProof([await sign(KMS_SIGNERS[0])]);
+
+    expect(() => assertKmsSignatures(SEPOLIA_NETWORK, SIGNER_SET, HANDLES, CLEAR_VALUES, proof))
+      .toThrow('Decryption proof has 1 KMS signatures; 2 are required.');
+  });
+
+  it('rejects a signer counted twice', async () => {
+    const signature = await sign(KMS_SIGNERS[0]);
+    const proof = packProof([signature, signature]);
+
+    expect(() => assertKmsSignatures(SEPOLIA_NETWORK, SIGNER_SET, HANDLES, CLEAR_VALUES, proof))
+      .toThrow('Decryption proof repeats a KMS signer.');
+  });
+
+  it('rejects signatures from outside the signer set', async () => {
+    const proof = packProof([await sign(KMS_SIGNERS[0]), await sign(OUTSIDER)]);
+
+    expect(() => assertKmsSignatures(SEPOLIA_NETWORK, SIGNER_SET, HANDLES, CLEAR_VALUES, proof))
+      .toThrow(`signed by ${OUTSIDER.address}, which is not a KMS signer`);
+  });
+
+  it('rejects signatures over other clear values', async () => {
+    const proof = packProof([await sign(KMS_SIGNERS[0]), await sign(KMS_SIGNERS[1])]);
+    const tampered = ethers.AbiCoder.defaultAbiCoder().encode(['uint32'], [43]);
+
+    expect(() => assertKmsSignatures(SEPOLIA_NETWORK, SIGNER_SET, HANDLES, tampered, proof)).toThrow(ProofInvalidError);
+  });
+});
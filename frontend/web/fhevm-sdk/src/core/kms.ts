@@ -0,0 +1,134 @@
+/**
+ * FHEVM KMS Proof Verification - Universal SDK
+ * Checks a public decryption proof against the KMSVerifier's signer set,
+ * the same way `FHE.checkSignatures` does on-chain, before any gas is spent
+ */
+
+import { ethers } from 'ethers';
+import { ProofInvalidError } from './errors.js';
+import type { FhevmNetworkConfig } from './networks.js';
+
+/**
+ * Read-only subset of the host chain's KMSVerifier; `verifyDecryptionEIP712KMSSignatures`
+ * matches @fhevm/solidity's IKMSVerifier
+ */
+export const KMS_VERIFIER_ABI = [
+  'function getKmsSigners() view returns (address[])',
+  'function getThreshold() view returns (uint256)',
+  'function verifyDecryptionEIP712KMSSignatures(bytes32[] handlesList, bytes decryptedResult, bytes decryptionProof) returns (bool)',
+] as const;
+
+/**
+ * EIP-712 types the KMS signs public decryption results with
+ */
+export const PUBLIC_DECRYPT_EIP712_TYPES = {
+  PublicDecryptVerification: [
+    { name: 'ctHandles', type: 'bytes32[]' },
+    { name: 'decryptedResult', type: 'bytes' },
+    { name: 'extraData', type: 'bytes' },
+  ],
+};
+
+export interface KmsSignerSet {
+  /** Checksummed addresses */
+  signers: string[];
+  /** Distinct valid signatures a proof needs */
+  threshold: number;
+}
+
+export interface ParsedDecryptionProof {
+  signatures: string[];
+  extraData: string;
+}
+
+const SIGNATURE_LENGTH = 65;
+
+export function getKmsVerifierContract(kmsVerifierAddress: string, runner: ethers.ContractRunner): ethers.Contract {
+  return new ethers.Contract(kmsVerifierAddress, KMS_VERIFIER_ABI, runner);
+}
+
+/**
+ * Current KMS signers and threshold, read with eth_call
+ */
+export async function getKmsSignerSet(kmsVerifier: ethers.Contract): Promise<KmsSignerSet> {
+  const [signers, threshold]: [string[], bigint] = await Promise.all([
+    kmsVerifier.getKmsSigners(),
+    kmsVerifier.getThreshold(),
+  ]);
+  return { signers: signers.map((signer) => ethers.getAddress(signer)), threshold: Number(threshold) };
+}
+
+/**
+ * Split a proof laid out as `uint8 numSigners ‖ numSigners × 65-byte signature ‖ extraData`
+ */
+export function parseDecryptionProof(decryptionProof: string): ParsedDecryptionProof {
+  const bytes = ethers.getBytes(decryptionProof);
+  if (bytes.length === 0) {
+    throw new ProofInvalidError('Decryption proof is empty.');
+  }
+  const count = bytes[0];
+  const end = 1 + count * SIGNATURE_LENGTH;
+  if (bytes.length < end) {
+    throw new ProofInvalidError(`Decryption proof declares ${count} signatures but holds ${Math.floor((bytes.length - 1) / SIGNATURE_LENGTH)}.`);
+  }
+
+  const signatures: string[] = [];
+  for (let offset = 1; offset < end; offset += SIGNATURE_LENGTH) {
+    signatures.push(ethers.hexlify(bytes.subarray(offset, offset + SIGNATURE_LENGTH)));
+  }
+  return { signatures, extraData: ethers.hexlify(bytes.subarray(end)) };
+}
+
+/**
+ * Addresses that signed the decryption result, in proof order
+ */
+export function recoverDecryptionSigners(
+  network: FhevmNetworkConfig,
+  handles: string[],
+  abiEncodedClearValues: string,
+  decryptionProof: string
+): string[] {
+  const { signatures, extraData } = parseDecryptionProof(decryptionProof);
+  const domain = {
+    name: 'Decryption',
+    version: '1',
+    chainId: network.gatewayChainId,
+    verifyingContract: network.verifyingContractAddressDecryption,
+  };
+  const message = { ctHandles: handles, decryptedResult: abiEncodedClearValues, extraData };
+
+  return signatures.map((signature) => {
+    try {
+      return ethers.verifyTypedData(domain, PUBLIC_DECRYPT_EIP712_TYPES, message, signature);
+    } catch (error) {
+      throw new ProofInvalidError('Decryption proof holds a malformed signature.', { cause: error });
+    }
+  });
+}
+
+/**
+ * Throw ProofInvalidError unless the proof carries at least `threshold`
+ * signatures from distinct KMS signers over exactly these handles and values
+ */
+export function assertKmsSignatures(
+  network: FhevmNetworkConfig,
+  signerSet: KmsSignerSet,
+  handles: string[],
+  abiEncodedClearValues: string,
+  decryptionProof: string
+) {
+  const recovered = recoverDecryptionSigners(network, handles, abiEncodedClearValues, decryptionProof);
+  const known = new Set(signerSet.signers);
+
+  const unknown = recovered.find((signer) => !known.has(signer));
+  if (unknown) {
+    throw new ProofInvalidError(`Decryption proof is signed by ${unknown}, which is not a KMS signer.`);
+  }
+  const distinct = new Set(recovered).size;
+  if (distinct < recovered.length) {
+    throw new ProofInvalidError('Decryption proof repeats a KMS signer.');
+  }
+  if (distinct < signerSet.threshold) {
+    throw new ProofInvalidError(`Decryption proof has ${distinct} KMS signatures; ${signerSet.threshold} are required.`);
+  }
+}
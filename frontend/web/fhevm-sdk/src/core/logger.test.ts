@@ -0,0 +1,119 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createLogger, redact, REDACTED } from './logger.js';
+import { AclDeniedError } from './errors.js';
+
+const SIGNATURE = `0x${'ab'.repeat(65)}`;
+const PRIVATE_KEY = `0x${'1f'.repeat(32)}`;
+const ADDRESS = '0x00000000000000000000000000000000000000Aa';
+
+function fakeSink() {
+  return { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+}
+
+describe('redact', () => {
+  it('masks sensitive keys at any depth', () => {
+    const redacted = redact({
+      handle: 'h1',
+      clearValues: { h1: 42n },
+      nested: [{ privateKey: 'secret', plaintext: 7, contract: ADDRESS }],
+    });
+
+    expect(redacted).toEqual({
+      handle: 'h1',
+      clearValues: REDACTED,
+      nested: [{ privateKey: REDACTED, plaintext: REDACTED, contract: ADDRESS }],
+    });
+  });
+
+  it('masks signatures and private keys inside strings, with or without 0x', () => {
+    expect(redact(`signed ${SIGNATURE} by ${ADDRESS}`)).toBe(`signed ${REDACTED} by ${ADDRESS}`);
+    expect(redact(`key=${PRIVATE_KEY.slice(2)}`)).toBe(`key=${REDACTED}`);
+    expect(redact({ note: PRIVATE_KEY })).toEqual({ note: REDACTED });
+  });
+
+  it('leaves shorter hex and non-plain instances alone', () => {
+    const date = new Date(0);
+    expect(redact(ADDRESS)).toBe(ADDRESS);
+    expect(redact(date)).toBe(date);
+  });
+
+  it('replaces cycles instead of recursing forever', () => {
+    const value: Record<string, unknown> = { name: 'loop' };
+    value.self = value;
+    const list: unknown[] = [];
+    list.push(list);
+
+    expect(redact(value)).toEqual({ name: 'loop', self: '[Circular]' });
+    expect(redact(list)).toEqual(['[Circular]']);
+  });
+
+  it('redacts error messages, causes and fields, keeping the class', () => {
+    const cause = Object.assign(new Error(`signature ${SIGNATURE} rejected`), { privateKey: PRIVATE_KEY });
+    const error = new AclDeniedError(`Key ${PRIVATE_KEY} is not allowed`, { cause });
+
+    const redacted = redact(error) as AclDeniedError;
+
+    expect(redacted).not.toBe(error);
+    expect(redacted).toBeInstanceOf(AclDeniedError);
+    expect(redacted.code).toBe('ACL_DENIED');
+    expect(redacted.message).toBe(`Key ${REDACTED} is not allowed`);
+    expect(redacted.stack).not.toContain(PRIVATE_KEY);
+    expect((redacted.cause as Error).message).toBe(`signature ${REDACTED} rejected`);
+    expect((redacted.cause as any).privateKey).toBe(REDACTED);
+    expect(error.message).toContain(PRIVATE_KEY);
+  });
+
+  it('handles an error that is its own cause', () => {
+    const error = new Error('loop') as Error & { cause?: unknown };
+    error.cause = error;
+
+    expect((redact(error) as typeof error).cause).toBe('[Circular]');
+  });
+});
+
+describe('createLogger', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('prefixes messages and redacts every argument', () => {
+    const sink = fakeSink();
+    const logger = createLogger({ sink, level: 'debug' });
+
+    logger.debug(`signed ${SIGNATURE}`, { values: [1, 2] }, new Error(PRIVATE_KEY));
+
+    const [message, fields, error] = sink.debug.mock.calls[0];
+    expect(message).toBe(`[fhevm] signed ${REDACTED}`);
+    expect(fields).toEqual({ values: REDACTED });
+    expect(error.message).toBe(REDACTED);
+  });
+
+  it('drops records below the level', () => {
+    const sink = fakeSink();
+    const logger = createLogger({ sink, level: 'warn', prefix: '[app]' });
+
+    logger.info('hidden');
+    logger.warn('shown');
+
+    expect(sink.info).not.toHaveBeenCalled();
+    expect(sink.warn).toHaveBeenCalledWith('[app] shown');
+  });
+
+  it('falls back to sink.log when the level has no method', () => {
+    const log = vi.fn();
+    createLogger({ sink: { log } }).error('failed');
+
+    expect(log).toHaveBeenCalledWith('[fhevm] failed');
+  });
+
+  it('is silent in production unless a level is given', () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    const sink = fakeSink();
+
+    createLogger({ sink }).error('hidden');
+    createLogger({ sink, level: 'error' }).error('shown');
+
+    expect(sink.error).toHaveBeenCalledTimes(1);
+    expect(sink.error).toHaveBeenCalledWith('[fhevm] shown');
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * FHEVM Logger - Universal SDK
+ * Leveled logging that is silent in production and redacts plaintexts,
+ * decryption keys and signatures before anything reaches the sink
+ */
+
+export type FhevmLogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+export interface FhevmLogger {
+  debug(message: string, ...args: unknown[]): void;
+  info(message: string, ...args: unknown[]): void;
+  warn(message: string, ...args: unknown[]): void;
+  error(message: string, ...args: unknown[]): void;
+}
+
+/**
+ * Where records end up; `console` and most logging libraries fit
+ */
+export type FhevmLogSink = Partial<Pick<Console, 'debug' | 'info' | 'log' | 'warn' | 'error'>>;
+
+export interface FhevmLoggerOptions {
+  /** Minimum level written; defaults to `silent` in production, `info` otherwise */
+  level?: FhevmLogLevel;
+  /** Defaults to `console` */
+  sink?: FhevmLogSink;
+  /** Prepended to every message (default `[fhevm]`) */
+  prefix?: string;
+}
+
+const LEVELS: Record<FhevmLogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40, silent: 100 };
+
+export const REDACTED = '[REDACTED]';
+
+/** Object keys whose values are never logged */
+const SENSITIVE_KEYS = /^(value|values|clearValues?|abiEncodedClearValues|plaintext|decryptedValues?|privateKey|signature)$/i;
+
+/**
+ * Hex runs of 32 bytes or more, with or without 0x: private keys, signatures
+ * and decryption proofs. Handles and hashes have the same shape and are masked too.
+ */
+const SECRET_HEX_PATTERN = /\b(0x)?[0-9a-fA-F]{64,}\b/g;
+
+function isProduction() {
+  try {
+    // Bundlers replace this expression statically
+    return process.env.NODE_ENV === 'production';
+  } catch {
+    return false;
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (value === null || typeof value !== 'object') return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+/**
+ * Copy of `error` of the same class, with its message, stack, cause and own fields redacted
+ */
+function redactError(error: Error, seen: WeakSet<object>): Error {
+  const copy = Object.create(Object.getPrototypeOf(error)) as Error;
+  for (const key of Object.getOwnPropertyNames(error)) {
+    const item = Reflect.get(error, key);
+    Object.defineProperty(copy, key, {
+      value: SENSITIVE_KEYS.test(key) ? REDACTED : redact(item, seen),
+      enumerable: Object.prototype.propertyIsEnumerable.call(error, key),
+      writable: true,
+      configurable: true,
+    });
+  }
+  return copy;
+}
+
+/**
+ * Copy of `value` with sensitive fields and key- or signature-shaped strings masked.
+ * Plain objects, arrays and errors are traversed; other instances pass through.
+ */
+export function redact(value: unknown, seen = new WeakSet<object>()): unknown {
+  if (typeof value === 'string') return value.replace(SECRET_HEX_PATTERN, REDACTED);
+  if (value instanceof Error) {
+    if (seen.has(value)) return '[Circular]';
+    seen.add(value);
+    return redactError(value, seen);
+  }
+  if (Array.isArray(value) || isPlainObject(value)) {
+    if (seen.has(value)) return '[Circular]';
+    seen.add(value);
+    if (Array.isArray(value)) return value.map((item) => redact(item, seen));
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, SENSITIVE_KEYS.test(key) ? REDACTED : redact(item, seen)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Create a redacting logger writing to `sink` at or above `level`
+ */
+export function createLogger(options: FhevmLoggerOptions = {}): FhevmLogger {
+  const threshold = LEVELS[options.level ?? (isProduction() ? 'silent' : 'info')];
+  const sink = options.sink ?? console;
+  const prefix = options.prefix ?? '[fhevm]';
+
+  const write = (level: Exclude<FhevmLogLevel, 'silent'>, message: string, args: unknown[]) => {
+    if (LEVELS[level] < threshold) return;
+    const method = sink[level] ?? sink.log;
+    method?.call(sink, `${prefix} ${redact(message)}`, ...args.map((arg) => redact(arg)));
+  };
+
+  return {
+    debug: (message, ...args) => write('debug', message, args),
+    info: (message, ...args) => write('info', message, args),
+    warn: (message, ...args) => write('warn', message, args),
+    error: (message, ...args) => write('error', message, args),
+  };
+}
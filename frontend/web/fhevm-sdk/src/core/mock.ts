@@ -0,0 +1,153 @@
+/**
+ * Mock FHEVM Backend - Universal SDK
+ * Runs encryption and decryption against the @fhevm/hardhat-plugin mock
+ * coprocessor on a local Hardhat node, with no Zama relayer involved
+ */
+
+import { ethers } from 'ethers';
+import type { MockFhevmInstance } from '@fhevm/mock-utils';
+import { HARDHAT_NETWORK, type FhevmNetworkConfig } from './networks.js';
+import { WrongChainError } from './errors.js';
+import { decodeClearValues, type ClearValue } from './decryption.js';
+
+/**
+ * Host contract addresses reported by a Hardhat node running the FHEVM plugin
+ */
+interface FhevmRelayerMetadata {
+  ACLAddress: string;
+  InputVerifierAddress: string;
+  KMSVerifierAddress: string;
+}
+
+/**
+ * The `@fhevm/mock-utils` module namespace
+ */
+export type MockUtilsModule = typeof import('@fhevm/mock-utils');
+
+export interface MockFhevmInstanceOptions {
+  /** Local node endpoint; defaults to the network's rpcUrl */
+  rpcUrl?: string;
+  /** Defaults to the built-in Hardhat network */
+  network?: FhevmNetworkConfig;
+  /**
+   * `@fhevm/mock-utils`, imported by the app. Browser bundles need this:
+   * the SDK's own import of it is hidden from bundlers.
+   */
+  mockUtils?: MockUtilsModule;
+}
+
+/**
+ * Held in a variable so bundlers building an app do not try to resolve the
+ * optional peer dependency; the browser entry reaches this module through core/index
+ */
+const MOCK_UTILS_MODULE = '@fhevm/mock-utils';
+
+/**
+ * Ask the node for its FHEVM host addresses; plain nodes do not implement this
+ */
+async function fetchRelayerMetadata(provider: ethers.JsonRpcProvider): Promise<FhevmRelayerMetadata | null> {
+  try {
+    return await provider.send('fhevm_relayer_metadata', []);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The relayer instance API over the mock coprocessor; publicDecrypt resolves
+ * to the v0.9 result shape, proof included
+ */
+export type MockRelayerInstance = Pick<
+  MockFhevmInstance,
+  'createEncryptedInput' | 'generateKeypair' | 'createEIP712' | 'getPublicKey' | 'getPublicParams' | 'userDecrypt'
+> & {
+  publicDecrypt(handles: string[]): Promise<{
+    clearValues: { [handle: string]: ClearValue };
+    abiEncodedClearValues: string;
+    decryptionProof: string;
+  }>;
+};
+
+/**
+ * Extra data the mock KMS signs public decryptions with
+ */
+const MOCK_EXTRA_DATA = '0x00';
+
+/**
+ * Create a mock instance exposing the relayer API (createEncryptedInput,
+ * userDecrypt, publicDecrypt, createEIP712, generateKeypair) backed by the
+ * local mock coprocessor. Requires the optional `@fhevm/mock-utils` peer dependency.
+ *
+ * publicDecrypt returns the v0.9 shape, with a decryption proof packed from
+ * the mock KMS signatures, so results can be verified like relayer results.
+ */
+export async function createMockFhevmInstance(options: MockFhevmInstanceOptions = {}): Promise<MockRelayerInstance> {
+  const network = options.network ?? HARDHAT_NETWORK;
+  const rpcUrl = options.rpcUrl ?? network.rpcUrl;
+  if (!rpcUrl) {
+    throw new Error(`Mock mode needs an RPC URL for ${network.name}. Pass rpcUrl or set it on the network config.`);
+  }
+
+  let mockUtils: MockUtilsModule;
+  try {
+    mockUtils = options.mockUtils ?? await import(/* @vite-ignore */ /* webpackIgnore: true */ MOCK_UTILS_MODULE);
+  } catch (err) {
+    throw new Error('Mock mode requires @fhevm/mock-utils. Install it with: npm install --save-dev @fhevm/mock-utils, and pass it as { mockUtils } in browser builds');
+  }
+
+  const provider = new ethers.JsonRpcProvider(rpcUrl);
+  const chainId = Number((await provider.getNetwork()).chainId);
+  if (chainId !== network.chainId) {
+    throw new WrongChainError(`Mock node at ${rpcUrl} reports chain ${chainId}, expected ${network.chainId} (${network.name})`, {
+      chainId,
+      expectedChainId: network.chainId,
+    });
+  }
+
+  // Prefer the addresses the node actually deployed over the registry defaults
+  const metadata = await fetchRelayerMetadata(provider);
+
+  const aclContractAddress = metadata?.ACLAddress ?? network.aclContractAddress;
+  const instance = await mockUtils.MockFhevmInstance.create(provider, provider, {
+    chainId: network.chainId,
+    gatewayChainId: network.gatewayChainId,
+    aclContractAddress,
+    inputVerifierContractAddress: metadata?.InputVerifierAddress ?? network.inputVerifierContractAddress,
+    kmsContractAddress: metadata?.KMSVerifierAddress ?? network.kmsContractAddress,
+    verifyingContractAddressDecryption: network.verifyingContractAddressDecryption,
+    verifyingContractAddressInputVerification: network.verifyingContractAddressInputVerification,
+  });
+
+  // MockFhevmInstance.publicDecrypt checks the KMS signatures but returns bare clear values
+  const publicDecrypt = async (handles: string[]) => {
+    await mockUtils.MockFhevmInstance.verifyPublicACLPermissions(provider, aclContractAddress, handles);
+    const { response: [result] } = await mockUtils.relayer.requestRelayerV1PublicDecrypt(provider, {
+      ciphertextHandles: handles,
+      extraData: MOCK_EXTRA_DATA,
+    });
+    const abiEncodedClearValues = ethers.hexlify(ethers.getBytes(ensureHexPrefix(result.decrypted_value)));
+    const signatures = result.signatures.map(ensureHexPrefix);
+    return {
+      clearValues: decodeClearValues(handles, abiEncodedClearValues),
+      abiEncodedClearValues,
+      decryptionProof: ethers.solidityPacked(
+        ['uint8', ...signatures.map(() => 'bytes'), 'bytes'],
+        [signatures.length, ...signatures, MOCK_EXTRA_DATA]
+      ),
+    };
+  };
+
+  return {
+    createEncryptedInput: instance.createEncryptedInput.bind(instance),
+    generateKeypair: instance.generateKeypair.bind(instance),
+    createEIP712: instance.createEIP712.bind(instance),
+    getPublicKey: instance.getPublicKey.bind(instance),
+    getPublicParams: instance.getPublicParams.bind(instance),
+    userDecrypt: instance.userDecrypt.bind(instance),
+    publicDecrypt,
+  };
+}
+
+function ensureHexPrefix(value: string) {
+  return value.startsWith('0x') ? value : `0x${value}`;
+}
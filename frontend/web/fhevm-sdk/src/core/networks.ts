@@ -0,0 +1,111 @@
+/**
+ * FHEVM Network Registry - Universal SDK
+ * Protocol addresses per host chain, looked up from the wallet's chain id
+ */
+
+import { WrongChainError } from './errors.js';
+
+export interface FhevmNetworkConfig {
+  name: string;
+  /** FHEVM host chain id */
+  chainId: number;
+  aclContractAddress: string;
+  kmsContractAddress: string;
+  inputVerifierContractAddress: string;
+  /** DECRYPTION_ADDRESS on the gateway chain */
+  verifyingContractAddressDecryption: string;
+  /** INPUT_VERIFICATION_ADDRESS on the gateway chain */
+  verifyingContractAddressInputVerification: string;
+  gatewayChainId: number;
+  /** Absent for local networks served by a mock coprocessor */
+  relayerUrl?: string;
+  /** Default JSON-RPC endpoint for the host chain */
+  rpcUrl?: string;
+}
+
+export const SEPOLIA_NETWORK: FhevmNetworkConfig = {
+  name: 'sepolia',
+  chainId: 11155111,
+  aclContractAddress: '0xf0Ffdc93b7E186bC2f8CB3dAA75D86d1930A433D',
+  kmsContractAddress: '0xbE0E383937d564D7FF0BC3b46c51f0bF8d5C311A',
+  inputVerifierContractAddress: '0xBBC1fFCdc7C316aAAd72E807D9b0272BE8F84DA0',
+  verifyingContractAddressDecryption: '0x5D8BD78e2ea6bbE41f26dFe9fdaEAa349e077478',
+  verifyingContractAddressInputVerification: '0x483b9dE06E4E4C7D35CCf5837A1668487406D955',
+  gatewayChainId: 10901,
+  relayerUrl: 'https://relayer.testnet.zama.org',
+  rpcUrl: 'https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3',
+};
+
+/**
+ * Local Hardhat node running the @fhevm/hardhat-plugin mock coprocessor
+ */
+export const HARDHAT_NETWORK: FhevmNetworkConfig = {
+  name: 'hardhat',
+  chainId: 31337,
+  aclContractAddress: '0x50157CFfD6bBFA2DECe204a89ec419c23ef5755D',
+  kmsContractAddress: '0x901F8942346f7AB3a01F6D7613119Bca447Bb030',
+  inputVerifierContractAddress: '0x36772142b74871f255CbD7A3e89B401d3e45825f',
+  verifyingContractAddressDecryption: '0x5ffdaAB0373E62E2ea2944776209aEf29E631A64',
+  verifyingContractAddressInputVerification: '0x812b06e1CDCE800494b79fFE4f925A504a9A9810',
+  gatewayChainId: 55815,
+  rpcUrl: 'http://127.0.0.1:8545',
+};
+
+const networks = new Map<number, FhevmNetworkConfig>([
+  [SEPOLIA_NETWORK.chainId, SEPOLIA_NETWORK],
+  [HARDHAT_NETWORK.chainId, HARDHAT_NETWORK],
+]);
+
+/**
+ * Register (or replace) the config for a host chain
+ */
+export function registerNetwork(config: FhevmNetworkConfig) {
+  networks.set(config.chainId, config);
+}
+
+export function getNetwork(chainId: number): FhevmNetworkConfig | undefined {
+  return networks.get(chainId);
+}
+
+export function listNetworks(): FhevmNetworkConfig[] {
+  return [...networks.values()];
+}
+
+/**
+ * Look up the registered config for a chain id, or throw
+ */
+export function requireNetwork(chainId: number): FhevmNetworkConfig {
+  const network = networks.get(chainId);
+  if (!network) {
+    throw new WrongChainError(`No FHEVM network registered for chain ${chainId}. Register it with registerNetwork().`, { chainId });
+  }
+  return network;
+}
+
+/**
+ * Use the requested network if any, else the registered one for the detected chain
+ */
+export async function selectNetwork(
+  requested: number | FhevmNetworkConfig | undefined,
+  detectChainId: () => Promise<number>
+): Promise<FhevmNetworkConfig> {
+  if (typeof requested === 'object') return requested;
+  if (typeof requested === 'number') return requireNetwork(requested);
+  return requireNetwork(await detectChainId());
+}
+
+/**
+ * Relayer `createInstance` fields for a network
+ */
+export function toInstanceConfig(network: FhevmNetworkConfig) {
+  return {
+    chainId: network.chainId,
+    aclContractAddress: network.aclContractAddress,
+    kmsContractAddress: network.kmsContractAddress,
+    inputVerifierContractAddress: network.inputVerifierContractAddress,
+    verifyingContractAddressDecryption: network.verifyingContractAddressDecryption,
+    verifyingContractAddressInputVerification: network.verifyingContractAddressInputVerification,
+    gatewayChainId: network.gatewayChainId,
+    ...(network.relayerUrl ? { relayerUrl: network.relayerUrl } : {}),
+  };
+}
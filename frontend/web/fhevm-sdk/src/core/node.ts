@@ -0,0 +1,48 @@
+/**
+ * Node.js Platform - Universal SDK
+ * Creates the relayer instance from the SDK's Node.js build, with an
+ * EIP-1193 provider backed by the client's signer or a JSON-RPC endpoint
+ */
+
+import { createInstance } from '@zama-fhe/relayer-sdk/node';
+import { ethers } from 'ethers';
+import type { FhevmPlatform } from './client.js';
+import { getNetwork, selectNetwork, SEPOLIA_NETWORK, toInstanceConfig } from './networks.js';
+import { createReadOnlyEip1193Provider, createSignerEip1193Provider } from './eip1193.js';
+import { toFhevmError } from './errors.js';
+
+export const nodePlatform: FhevmPlatform = {
+  name: 'node',
+
+  async createInstance(context) {
+    const { logger, signer, rpcUrl } = context;
+    try {
+      logger.debug('Initializing FHEVM Node.js instance');
+
+      const requestedConfig = typeof context.network === 'number' ? getNetwork(context.network) : context.network;
+      const signerProvider = signer?.provider as ethers.JsonRpcApiProvider | null | undefined;
+      const provider: ethers.JsonRpcApiProvider = !rpcUrl && typeof signerProvider?.send === 'function'
+        ? signerProvider
+        : new ethers.JsonRpcProvider(rpcUrl || requestedConfig?.rpcUrl || SEPOLIA_NETWORK.rpcUrl);
+      const network = await selectNetwork(context.network, async () => Number((await provider.getNetwork()).chainId));
+
+      // Signer-backed when a signer is given, read-only otherwise
+      const eip1193Provider = context.provider ?? (signer
+        ? createSignerEip1193Provider(signer, provider)
+        : createReadOnlyEip1193Provider(provider));
+
+      const config = {
+        ...toInstanceConfig(network),
+        ...context.config,
+        network: eip1193Provider
+      };
+
+      const instance = await context.run(() => createInstance(config), { signal: context.signal });
+      logger.info(`FHEVM Node.js instance created for ${network.name}`);
+      return { instance, network, provider: eip1193Provider };
+    } catch (err) {
+      logger.error('FHEVM Node.js instance creation failed:', err);
+      throw toFhevmError(err);
+    }
+  },
+};
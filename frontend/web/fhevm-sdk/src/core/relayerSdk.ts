@@ -0,0 +1,131 @@
+/**
+ * Relayer SDK Loader - Universal SDK
+ * Imports the relayer SDK's ESM web entry, with configurable WASM assets,
+ * integrity checks and preload hints. The CDN global is an optional fallback.
+ */
+
+export interface RelayerWasmAsset {
+  url: string;
+  /** Subresource Integrity hash, e.g. `sha384-...`; the load fails on mismatch */
+  integrity?: string;
+}
+
+export interface RelayerSdkOptions {
+  /** TFHE WASM; defaults to the file shipped with the SDK */
+  tfheWasm?: string | RelayerWasmAsset;
+  /** KMS WASM; defaults to the file shipped with the SDK */
+  kmsWasm?: string | RelayerWasmAsset;
+  /** TFHE worker threads; defaults to `navigator.hardwareConcurrency` */
+  threads?: number;
+  /**
+   * Use the `window.RelayerSDK` global when the module import fails.
+   * `true` only picks up an existing global; a URL injects that script first.
+   */
+  cdnFallback?: boolean | string;
+}
+
+export interface RelayerSdk {
+  initSDK(options?: { tfheParams?: any; kmsParams?: any; thread?: number }): Promise<unknown>;
+  createInstance(config: Record<string, any>): Promise<any>;
+}
+
+export const RELAYER_SDK_CDN_URL = 'https://cdn.zama.org/relayer-sdk-js/0.3.0-5/relayer-sdk-js.umd.cjs';
+
+let sdkModule: Promise<RelayerSdk> | undefined;
+
+function toAsset(input?: string | RelayerWasmAsset): RelayerWasmAsset | undefined {
+  return typeof input === 'string' ? { url: input } : input;
+}
+
+function cdnGlobal(): RelayerSdk | undefined {
+  if (typeof window === 'undefined') return undefined;
+  return (window as any).RelayerSDK || (window as any).relayerSDK;
+}
+
+function injectScript(src: string) {
+  return new Promise<void>((resolve, reject) => {
+    const script = document.createElement('script');
+    script.src = src;
+    script.onload = () => resolve();
+    script.onerror = () => reject(new Error(`Failed to load relayer SDK script ${src}`));
+    document.head.appendChild(script);
+  });
+}
+
+async function importRelayerSdk(options: RelayerSdkOptions): Promise<RelayerSdk> {
+  try {
+    // The web entry is a real module; /bundle only reads the window global. It assigns
+    // window.TFHE on import, so fhevm.worker.ts aliases window before calling this.
+    return await import('@zama-fhe/relayer-sdk/web');
+  } catch (importError) {
+    const fallback = options.cdnFallback ?? false;
+    if (!fallback) throw importError;
+
+    if (!cdnGlobal() && typeof fallback === 'string' && typeof document !== 'undefined') {
+      await injectScript(fallback);
+    }
+    const sdk = cdnGlobal();
+    if (!sdk) {
+      throw new Error(`Relayer SDK module import failed and no CDN global is available: ${(importError as Error)?.message ?? importError}`);
+    }
+    return sdk;
+  }
+}
+
+/**
+ * Import the relayer SDK once; later calls share the same module
+ */
+export function loadRelayerSdk(options: RelayerSdkOptions = {}): Promise<RelayerSdk> {
+  sdkModule ??= importRelayerSdk(options).catch((error) => {
+    sdkModule = undefined;
+    throw error;
+  });
+  return sdkModule;
+}
+
+/**
+ * Start downloading the SDK and its WASM assets before `initialize()` needs them.
+ * Adds `<link rel="preload">` hints for configured WASM URLs.
+ */
+export function preloadRelayerSdk(options: RelayerSdkOptions = {}) {
+  if (typeof document !== 'undefined') {
+    for (const asset of [toAsset(options.tfheWasm), toAsset(options.kmsWasm)]) {
+      if (!asset || document.querySelector(`link[rel="preload"][href="${asset.url}"]`)) continue;
+      const link = document.createElement('link');
+      link.rel = 'preload';
+      link.as = 'fetch';
+      link.href = asset.url;
+      link.crossOrigin = 'anonymous';
+      if (asset.integrity) link.integrity = asset.integrity;
+      document.head.appendChild(link);
+    }
+  }
+  loadRelayerSdk(options).catch(() => {
+    // Reported again by initialize()
+  });
+}
+
+/**
+ * Resolve a WASM asset to what initSDK accepts, verifying its integrity when a hash is given
+ */
+async function fetchWasm(asset?: RelayerWasmAsset): Promise<string | Response | undefined> {
+  if (!asset) return undefined;
+  if (!asset.integrity) return asset.url;
+  try {
+    // fetch() rejects when the body does not match the hash
+    return await fetch(asset.url, { integrity: asset.integrity, mode: 'cors' });
+  } catch (error) {
+    throw Object.assign(new Error(`Could not load ${asset.url} with integrity ${asset.integrity}`), { cause: error });
+  }
+}
+
+/**
+ * Load the WASM modules for `sdk`
+ */
+export async function initRelayerSdk(sdk: RelayerSdk, options: RelayerSdkOptions = {}) {
+  const [tfheParams, kmsParams] = await Promise.all([
+    fetchWasm(toAsset(options.tfheWasm)),
+    fetchWasm(toAsset(options.kmsWasm)),
+  ]);
+  await sdk.initSDK({ tfheParams, kmsParams, thread: options.threads });
+}
@@ -0,0 +1,202 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { isRetryableError, sleep, withRetry, withTimeout } from './retry.js';
+import {
+  AbortedError,
+  AclDeniedError,
+  ContractRevertedError,
+  RelayerUnavailableError,
+  TimeoutError,
+  WalletRejectedError,
+} from './errors.js';
+
+function relayerError(status: number) {
+  return Object.assign(new Error('Relayer request failed'), { cause: { code: 'RELAYER_FETCH_ERROR', status } });
+}
+
+describe('isRetryableError', () => {
+  it('retries relayer outages and timeouts', () => {
+    expect(isRetryableError(new RelayerUnavailableError())).toBe(true);
+    expect(isRetryableError(new TimeoutError())).toBe(true);
+    expect(isRetryableError(relayerError(503))).toBe(true);
+    expect(isRetryableError(relayerError(429))).toBe(true);
+    expect(isRetryableError(new Error('fetch failed'))).toBe(true);
+  });
+
+  it('retries transient JSON-RPC failures', () => {
+    expect(isRetryableError(Object.assign(new Error('bad gateway'), { code: 'SERVER_ERROR' }))).toBe(true);
+    expect(isRetryableError(Object.assign(new Error('connection reset'), { code: 'NETWORK_ERROR' }))).toBe(true);
+  });
+
+  it('does not retry failures that would fail again', () => {
+    expect(isRetryableError(relayerError(400))).toBe(false);
+    expect(isRetryableError(new WalletRejectedError())).toBe(false);
+    expect(isRetryableError(new AclDeniedError('not allowed'))).toBe(false);
+    expect(isRetryableError(new ContractRevertedError())).toBe(false);
+    expect(isRetryableError(Object.assign(new Error('network changed'), { code: 'NETWORK_ERROR' }))).toBe(false);
+    expect(isRetryableError(new Error('boom'))).toBe(false);
+    expect(isRetryableError('boom')).toBe(false);
+  });
+});
+
+describe('withTimeout', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('resolves with the operation result', async () => {
+    await expect(withTimeout(async () => 42, { timeoutMs: 100 })).resolves.toBe(42);
+  });
+
+  it('rejects with TimeoutError and aborts the operation signal', async () => {
+    let operationSignal!: AbortSignal;
+    const result = withTimeout((signal) => {
+      operationSignal = signal;
+      return new Promise(() => {});
+    }, { timeoutMs: 100 });
+    const assertion = expect(result).rejects.toMatchObject({ code: 'TIMEOUT', timeoutMs: 100 });
+
+    await vi.advanceTimersByTimeAsync(100);
+    await assertion;
+    expect(operationSignal.aborted).toBe(true);
+    expect(operationSignal.reason).toBeInstanceOf(TimeoutError);
+  });
+
+  it('never times out with timeoutMs 0', async () => {
+    let resolve!: (value: string) => void;
+    const result = withTimeout(() => new Promise<string>((r) => { resolve = r; }), { timeoutMs: 0 });
+
+    await vi.advanceTimersByTimeAsync(10 * 60_000);
+    resolve('late');
+    await expect(result).resolves.toBe('late');
+  });
+
+  it('rejects with AbortedError when the caller aborts', async () => {
+    const controller = new AbortController();
+    let operationSignal!: AbortSignal;
+    const result = withTimeout((signal) => {
+      operationSignal = signal;
+      return new Promise(() => {});
+    }, { signal: controller.signal });
+    const assertion = expect(result).rejects.toBeInstanceOf(AbortedError);
+
+    controller.abort('navigated away');
+    await assertion;
+    await expect(result).rejects.toMatchObject({ cause: 'navigated away' });
+    expect(operationSignal.aborted).toBe(true);
+  });
+
+  it('does not start when the signal is already aborted', async () => {
+    const operation = vi.fn(async () => 1);
+
+    await expect(withTimeout(operation, { signal: AbortSignal.abort() })).rejects.toBeInstanceOf(AbortedError);
+    expect(operation).not.toHaveBeenCalled();
+  });
+
+  it('passes operation errors through unchanged', async () => {
+    const error = new Error('boom');
+    await expect(withTimeout(() => Promise.reject(error))).rejects.toBe(error);
+  });
+});
+
+describe('sleep', () => {
+  it('rejects with AbortedError when aborted early', async () => {
+    const controller = new AbortController();
+    const result = sleep(60_000, controller.signal);
+    controller.abort();
+    await expect(result).rejects.toBeInstanceOf(AbortedError);
+  });
+});
+
+describe('withRetry', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('retries retryable failures with exponential backoff', async () => {
+    const operation = vi.fn()
+      .mockRejectedValueOnce(new RelayerUnavailableError())
+      .mockRejectedValueOnce(new RelayerUnavailableError())
+      .mockResolvedValueOnce('ok');
+
+    const result = withRetry(operation, { retry: { retries: 2, initialDelayMs: 100, factor: 3 } });
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(operation).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(100);
+    expect(operation).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(299);
+    expect(operation).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(result).resolves.toBe('ok');
+    expect(operation).toHaveBeenCalledTimes(3);
+  });
+
+  it('caps each delay at maxDelayMs', async () => {
+    const operation = vi.fn()
+      .mockRejectedValueOnce(new RelayerUnavailableError())
+      .mockRejectedValueOnce(new RelayerUnavailableError())
+      .mockResolvedValueOnce('ok');
+
+    const result = withRetry(operation, { retry: { initialDelayMs: 1000, factor: 10, maxDelayMs: 1500 } });
+
+    await vi.advanceTimersByTimeAsync(1000 + 1500);
+    await expect(result).resolves.toBe('ok');
+  });
+
+  it('rethrows the last error once retries run out', async () => {
+    const last = new RelayerUnavailableError('still down');
+    const operation = vi.fn()
+      .mockRejectedValueOnce(new RelayerUnavailableError())
+      .mockRejectedValueOnce(last);
+
+    const result = withRetry(operation, { retry: { retries: 1, initialDelayMs: 10 } });
+    const assertion = expect(result).rejects.toBe(last);
+
+    await vi.advanceTimersByTimeAsync(10);
+    await assertion;
+    expect(operation).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry non-retryable errors or when retries are disabled', async () => {
+    const rejected = new WalletRejectedError();
+    const operation = vi.fn().mockRejectedValue(rejected);
+    await expect(withRetry(operation)).rejects.toBe(rejected);
+    expect(operation).toHaveBeenCalledTimes(1);
+
+    const unavailable = vi.fn().mockRejectedValue(new RelayerUnavailableError());
+    await expect(withRetry(unavailable, { retry: false })).rejects.toBeInstanceOf(RelayerUnavailableError);
+    expect(unavailable).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops waiting for the next attempt when aborted', async () => {
+    const controller = new AbortController();
+    const operation = vi.fn().mockRejectedValue(new RelayerUnavailableError());
+
+    const result = withRetry(operation, { signal: controller.signal, retry: { initialDelayMs: 5000 } });
+    const assertion = expect(result).rejects.toBeInstanceOf(AbortedError);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    controller.abort();
+    await assertion;
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('applies the timeout to each attempt', async () => {
+    const operation = vi.fn()
+      .mockImplementationOnce(() => new Promise(() => {}))
+      .mockResolvedValueOnce('second try');
+
+    const result = withRetry(operation, { timeoutMs: 50, retry: { initialDelayMs: 10 } });
+
+    await vi.advanceTimersByTimeAsync(50 + 10);
+    await expect(result).resolves.toBe('second try');
+  });
+});
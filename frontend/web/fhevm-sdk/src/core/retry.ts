@@ -0,0 +1,145 @@
+/**
+ * FHEVM Retries and Timeouts - Universal SDK
+ * Bounds relayer and RPC calls with a timeout and an AbortSignal, and
+ * retries transient failures (network, 5xx) with exponential backoff
+ */
+
+import { AbortedError, TimeoutError, toFhevmError } from './errors.js';
+
+export interface RetryPolicy {
+  /** Attempts after the first one (default 2) */
+  retries: number;
+  /** Delay before the first retry in ms (default 1000) */
+  initialDelayMs: number;
+  /** Upper bound for a single delay in ms (default 10000) */
+  maxDelayMs: number;
+  /** Delay multiplier per attempt (default 2) */
+  factor: number;
+  /** Decides whether a failed attempt is worth repeating */
+  isRetryable: (error: unknown) => boolean;
+}
+
+export interface OperationOptions {
+  /** Cancels the operation and any pending retry */
+  signal?: AbortSignal;
+  /** Limit per attempt in ms; 0 disables it */
+  timeoutMs?: number;
+  /** Overrides merged over the default policy; `false` disables retries */
+  retry?: Partial<RetryPolicy> | false;
+}
+
+export const DEFAULT_TIMEOUT_MS = 60_000;
+
+/** ethers codes for JSON-RPC failures that may succeed on a second try */
+const TRANSIENT_RPC_CODES = new Set(['NETWORK_ERROR', 'SERVER_ERROR', 'TIMEOUT']);
+
+/**
+ * Network failures, timeouts and 5xx/408/429 relayer responses are retryable.
+ * Rejected proofs, ACL denials, wallet rejections and reverts are not.
+ */
+export function isRetryableError(error: unknown): boolean {
+  const fhevmError = toFhevmError(error);
+  if (fhevmError.code === 'RELAYER_UNAVAILABLE' || fhevmError.code === 'TIMEOUT') return true;
+  if (fhevmError.code !== 'UNKNOWN') return false;
+
+  const code = typeof error === 'object' && error !== null && 'code' in error ? error.code : undefined;
+  return typeof code === 'string' && TRANSIENT_RPC_CODES.has(code);
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retries: 2,
+  initialDelayMs: 1000,
+  maxDelayMs: 10_000,
+  factor: 2,
+  isRetryable: isRetryableError,
+};
+
+function abortedError(signal: AbortSignal) {
+  return new AbortedError(undefined, { cause: signal.reason });
+}
+
+/**
+ * Resolve after `ms`, or reject with AbortedError when `signal` fires
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortedError(signal));
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortedError(signal!));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Run `operation`, rejecting with TimeoutError after `timeoutMs` or AbortedError
+ * when `signal` fires. The signal passed to `operation` is aborted in both cases;
+ * calls that cannot be cancelled keep running, but the caller is released.
+ */
+export function withTimeout<T>(
+  operation: (signal: AbortSignal) => Promise<T>,
+  { signal, timeoutMs = DEFAULT_TIMEOUT_MS }: Pick<OperationOptions, 'signal' | 'timeoutMs'> = {}
+): Promise<T> {
+  if (signal?.aborted) return Promise.reject(abortedError(signal));
+
+  const controller = new AbortController();
+  return new Promise<T>((resolve, reject) => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const cleanup = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const fail = (error: Error) => {
+      cleanup();
+      controller.abort(error);
+      reject(error);
+    };
+    const onAbort = () => fail(abortedError(signal!));
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+    if (timeoutMs > 0) {
+      timer = setTimeout(() => fail(new TimeoutError(`Operation timed out after ${timeoutMs}ms`, { timeoutMs })), timeoutMs);
+    }
+
+    operation(controller.signal).then(
+      (value) => {
+        cleanup();
+        resolve(value);
+      },
+      (error) => {
+        cleanup();
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Run `operation` under `withTimeout`, retrying retryable failures with
+ * exponential backoff. The last error is rethrown unchanged.
+ */
+export async function withRetry<T>(
+  operation: (signal: AbortSignal) => Promise<T>,
+  options: OperationOptions = {}
+): Promise<T> {
+  const policy: RetryPolicy = options.retry === false
+    ? { ...DEFAULT_RETRY_POLICY, retries: 0 }
+    : { ...DEFAULT_RETRY_POLICY, ...options.retry };
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await withTimeout(operation, options);
+    } catch (error) {
+      if (attempt >= policy.retries || options.signal?.aborted || !policy.isRetryable(error)) {
+        throw error;
+      }
+      const delay = Math.min(policy.initialDelayMs * policy.factor ** attempt, policy.maxDelayMs);
+      await sleep(delay, options.signal);
+    }
+  }
+}
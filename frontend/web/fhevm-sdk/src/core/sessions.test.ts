@@ -0,0 +1,155 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { DecryptionSessionManager, MemorySessionStorage, type DecryptionSession } from './sessions.js';
+
+const USER = '0x00000000000000000000000000000000000000Aa';
+const CONTRACT_A = ethers.getAddress('0x00000000000000000000000000000000000000b1');
+const CONTRACT_B = ethers.getAddress('0x00000000000000000000000000000000000000c2');
+const DAY = 24 * 60 * 60;
+const NOW = 1_700_000_000;
+
+function fakeFhe() {
+  let keys = 0;
+  return {
+    generateKeypair: vi.fn(() => {
+      keys++;
+      return { publicKey: `pub${keys}`, privateKey: `priv${keys}` };
+    }),
+    createEIP712: vi.fn(async (publicKey: string, contracts: string[], start: string, days: string) => ({
+      domain: { name: 'Decryption' },
+      types: { UserDecryptRequestVerification: [] },
+      message: { publicKey, contracts, start, days },
+    })),
+  };
+}
+
+function fakeSigner() {
+  return {
+    getAddress: vi.fn(async () => USER),
+    signTypedData: vi.fn(async () => '0xsigned'),
+  };
+}
+
+describe('DecryptionSessionManager', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW * 1000);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('signs once and reuses the session for the same user, contracts and chain', async () => {
+    const manager = new DecryptionSessionManager();
+    const fhe = fakeFhe();
+    const signer = fakeSigner();
+
+    const first = await manager.getSession(fhe, signer, [CONTRACT_B, CONTRACT_A], 31337);
+    // Order and casing of the contract list do not matter
+    const second = await manager.getSession(fhe, signer, [CONTRACT_A.toLowerCase(), CONTRACT_B], 31337);
+
+    expect(second).toBe(first);
+    expect(signer.signTypedData).toHaveBeenCalledTimes(1);
+    expect(first).toMatchObject({
+      userAddress: USER,
+      contractAddresses: [CONTRACT_A, CONTRACT_B],
+      chainId: 31337,
+      signature: 'signed',
+      startTimestamp: NOW,
+      durationDays: 10,
+    });
+  });
+
+  it('keeps sessions apart per chain', async () => {
+    const manager = new DecryptionSessionManager();
+    const signer = fakeSigner();
+
+    await manager.getSession(fakeFhe(), signer, [CONTRACT_A], 1);
+    await manager.getSession(fakeFhe(), signer, [CONTRACT_A], 2);
+
+    expect(signer.signTypedData).toHaveBeenCalledTimes(2);
+  });
+
+  it('signs again once the session is within the expiry margin', async () => {
+    const manager = new DecryptionSessionManager({ durationDays: 1, expiryMarginSeconds: 60 });
+    const fhe = fakeFhe();
+    const signer = fakeSigner();
+
+    const first = await manager.getSession(fhe, signer, [CONTRACT_A], 31337);
+    vi.setSystemTime((NOW + DAY - 61) * 1000);
+    expect(await manager.getSession(fhe, signer, [CONTRACT_A], 31337)).toBe(first);
+
+    vi.setSystemTime((NOW + DAY - 60) * 1000);
+    const renewed = await manager.getSession(fhe, signer, [CONTRACT_A], 31337);
+    expect(renewed).not.toBe(first);
+    expect(renewed.startTimestamp).toBe(NOW + DAY - 60);
+    expect(signer.signTypedData).toHaveBeenCalledTimes(2);
+  });
+
+  it('treats sessions that start in the future as invalid', () => {
+    const manager = new DecryptionSessionManager();
+    const session = { startTimestamp: NOW + 10, durationDays: 1 } as DecryptionSession;
+
+    expect(manager.isValid(session)).toBe(false);
+    expect(manager.isValid(session, NOW + 10)).toBe(true);
+    expect(DecryptionSessionManager.expiresAt(session)).toBe(NOW + 10 + DAY);
+  });
+
+  it('refresh signs a new session and replaces the stored one', async () => {
+    const manager = new DecryptionSessionManager();
+    const fhe = fakeFhe();
+    const signer = fakeSigner();
+
+    const first = await manager.getSession(fhe, signer, [CONTRACT_A], 31337);
+    const refreshed = await manager.refresh(fhe, signer, [CONTRACT_A], 31337);
+
+    expect(refreshed.publicKey).not.toBe(first.publicKey);
+    expect(await manager.getSession(fhe, signer, [CONTRACT_A], 31337)).toBe(refreshed);
+    expect(signer.signTypedData).toHaveBeenCalledTimes(2);
+  });
+
+  it('shares one wallet prompt between concurrent requests', async () => {
+    const manager = new DecryptionSessionManager();
+    const fhe = fakeFhe();
+    const signer = fakeSigner();
+
+    const [a, b, c] = await Promise.all([
+      manager.getSession(fhe, signer, [CONTRACT_A], 31337),
+      manager.getSession(fhe, signer, [CONTRACT_A], 31337),
+      manager.refresh(fhe, signer, [CONTRACT_A], 31337),
+    ]);
+
+    expect(signer.signTypedData).toHaveBeenCalledTimes(1);
+    expect(b).toBe(a);
+    expect(c).toBe(a);
+  });
+
+  it('lets a failed signature be retried', async () => {
+    const manager = new DecryptionSessionManager();
+    const fhe = fakeFhe();
+    const signer = fakeSigner();
+    signer.signTypedData.mockRejectedValueOnce(new Error('User rejected'));
+
+    await expect(manager.getSession(fhe, signer, [CONTRACT_A], 31337)).rejects.toThrow('User rejected');
+    await expect(manager.getSession(fhe, signer, [CONTRACT_A], 31337)).resolves.toMatchObject({ signature: 'signed' });
+  });
+
+  it('revokes one session or all of them', async () => {
+    const storage = new MemorySessionStorage();
+    const manager = new DecryptionSessionManager({ storage });
+    const fhe = fakeFhe();
+    const signer = fakeSigner();
+
+    await manager.getSession(fhe, signer, [CONTRACT_A], 31337);
+    await manager.getSession(fhe, signer, [CONTRACT_B], 31337);
+
+    await manager.revoke(USER, [CONTRACT_A], 31337);
+    await manager.getSession(fhe, signer, [CONTRACT_A], 31337);
+    expect(signer.signTypedData).toHaveBeenCalledTimes(3);
+
+    await manager.revokeAll();
+    await manager.getSession(fhe, signer, [CONTRACT_B], 31337);
+    expect(signer.signTypedData).toHaveBeenCalledTimes(4);
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * FHEVM Decryption Sessions - Universal SDK
+ * Reuses EIP-712 user-decryption authorizations until they expire,
+ * so the wallet is prompted once per (user, contract set, chain)
+ */
+
+import { ethers } from 'ethers';
+
+export interface DecryptionSession {
+  userAddress: string;
+  /** Checksummed and sorted */
+  contractAddresses: string[];
+  chainId: number;
+  publicKey: string;
+  privateKey: string;
+  /** EIP-712 signature without the 0x prefix, as userDecrypt expects */
+  signature: string;
+  /** Unix seconds */
+  startTimestamp: number;
+  durationDays: number;
+}
+
+/**
+ * Where sessions are kept. Sessions hold the decryption private key,
+ * so only plug in storage you would trust with it.
+ */
+export interface DecryptionSessionStorage {
+  get(key: string): DecryptionSession | undefined | Promise<DecryptionSession | undefined>;
+  set(key: string, session: DecryptionSession): void | Promise<void>;
+  delete(key: string): void | Promise<void>;
+  clear?(): void | Promise<void>;
+}
+
+export interface DecryptionSessionOptions {
+  /** How long a signed authorization stays valid (default 10 days) */
+  durationDays?: number;
+  /** Fixed start time in Unix seconds; defaults to the time of signing */
+  startTimestamp?: number | (() => number);
+  /** Renew sessions this many seconds before they expire (default 60) */
+  expiryMarginSeconds?: number;
+  /** Defaults to an in-memory map */
+  storage?: DecryptionSessionStorage;
+}
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+function nowSeconds() {
+  return Math.floor(Date.now() / 1000);
+}
+
+function normalizeContracts(contractAddresses: string[]) {
+  return [...new Set(contractAddresses.map((address) => ethers.getAddress(address)))].sort();
+}
+
+function sessionKey(userAddress: string, contractAddresses: string[], chainId: number) {
+  return `${chainId}:${userAddress.toLowerCase()}:${normalizeContracts(contractAddresses).join(',').toLowerCase()}`;
+}
+
+/**
+ * In-memory session storage
+ */
+export class MemorySessionStorage implements DecryptionSessionStorage {
+  private sessions = new Map<string, DecryptionSession>();
+
+  get(key: string) {
+    return this.sessions.get(key);
+  }
+
+  set(key: string, session: DecryptionSession) {
+    this.sessions.set(key, session);
+  }
+
+  delete(key: string) {
+    this.sessions.delete(key);
+  }
+
+  clear() {
+    this.sessions.clear();
+  }
+}
+
+export class DecryptionSessionManager {
+  private durationDays: number;
+  private startTimestamp?: number | (() => number);
+  private expiryMarginSeconds: number;
+  private storage: DecryptionSessionStorage;
+  private pending = new Map<string, Promise<DecryptionSession>>();
+
+  constructor(options: DecryptionSessionOptions = {}) {
+    this.durationDays = options.durationDays ?? 10;
+    this.startTimestamp = options.startTimestamp;
+    this.expiryMarginSeconds = options.expiryMarginSeconds ?? 60;
+    this.storage = options.storage ?? new MemorySessionStorage();
+  }
+
+  /**
+   * Unix seconds at which the session stops being valid
+   */
+  static expiresAt(session: DecryptionSession) {
+    return session.startTimestamp + session.durationDays * SECONDS_PER_DAY;
+  }
+
+  isValid(session: DecryptionSession, now = nowSeconds()) {
+    return session.startTimestamp <= now
+      && DecryptionSessionManager.expiresAt(session) - this.expiryMarginSeconds > now;
+  }
+
+  /**
+   * Return a valid stored session, or sign a new one with `signer`
+   */
+  async getSession(fhe: any, signer: any, contractAddresses: string[], chainId: number): Promise<DecryptionSession> {
+    const userAddress = await signer.getAddress();
+    const key = sessionKey(userAddress, contractAddresses, chainId);
+
+    const stored = await this.storage.get(key);
+    if (stored && this.isValid(stored)) return stored;
+
+    return this.createSession(fhe, signer, userAddress, contractAddresses, chainId);
+  }
+
+  /**
+   * Sign a fresh authorization even if a valid one is stored
+   */
+  async refresh(fhe: any, signer: any, contractAddresses: string[], chainId: number): Promise<DecryptionSession> {
+    const userAddress = await signer.getAddress();
+    return this.createSession(fhe, signer, userAddress, contractAddresses, chainId);
+  }
+
+  /**
+   * Forget the session for (user, contract set, chain)
+   */
+  async revoke(userAddress: string, contractAddresses: string[], chainId: number) {
+    await this.storage.delete(sessionKey(userAddress, contractAddresses, chainId));
+  }
+
+  /**
+   * Forget every stored session
+   */
+  async revokeAll() {
+    if (!this.storage.clear) {
+      throw new Error('Session storage does not support clear()');
+    }
+    await this.storage.clear();
+  }
+
+  private resolveStartTimestamp() {
+    const start = this.startTimestamp;
+    if (typeof start === 'function') return start();
+    return start ?? nowSeconds();
+  }
+
+  private createSession(
+    fhe: any,
+    signer: any,
+    userAddress: string,
+    contractAddresses: string[],
+    chainId: number
+  ): Promise<DecryptionSession> {
+    const key = sessionKey(userAddress, contractAddresses, chainId);
+
+    // Concurrent decrypts share one wallet prompt
+    const inFlight = this.pending.get(key);
+    if (inFlight) return inFlight;
+
+    const signing = (async () => {
+      const contracts = normalizeContracts(contractAddresses);
+      // Awaited so worker-hosted instances, which answer asynchronously, work too
+      const keypair = await fhe.generateKeypair();
+      const startTimestamp = this.resolveStartTimestamp();
+      const durationDays = this.durationDays;
+
+      const eip712 = await fhe.createEIP712(
+        keypair.publicKey,
+        contracts,
+        startTimestamp.toString(),
+        durationDays.toString()
+      );
+
+      const signature = await signer.signTypedData(
+        eip712.domain,
+        {
+          UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification,
+        },
+        eip712.message
+      );
+
+      const session: DecryptionSession = {
+        userAddress,
+        contractAddresses: contracts,
+        chainId,
+        publicKey: keypair.publicKey,
+        privateKey: keypair.privateKey,
+        signature: signature.replace("0x", ""),
+        startTimestamp,
+        durationDays,
+      };
+      await this.storage.set(key, session);
+      return session;
+    })();
+
+    this.pending.set(key, signing);
+    return signing.finally(() => this.pending.delete(key));
+  }
+}
@@ -0,0 +1,181 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { isTransactionFinished, trackTransaction, type TransactionState } from './transactions.js';
+import { ContractRevertedError } from './errors.js';
+
+interface FakeTxOptions {
+  wait?: (confirmations: number) => Promise<unknown>;
+  getTransaction?: () => Promise<unknown>;
+  call?: () => Promise<string>;
+}
+
+function fakeReceipt(hash: string, confirmations: number[] = [1]) {
+  const counts = [...confirmations];
+  return {
+    hash,
+    blockNumber: 100,
+    confirmations: vi.fn(async () => (counts.length > 1 ? counts.shift()! : counts[0])),
+  } as unknown as ethers.TransactionReceipt;
+}
+
+function fakeTx(hash: string, options: FakeTxOptions = {}) {
+  return {
+    hash,
+    to: '0x000000000000000000000000000000000000dEaD',
+    from: '0x00000000000000000000000000000000000000Aa',
+    data: '0x1234',
+    value: 0n,
+    provider: {
+      getTransaction: vi.fn(options.getTransaction ?? (async () => ({ hash }))),
+      call: vi.fn(options.call ?? (async () => '0x')),
+    },
+    wait: vi.fn(options.wait ?? (async () => fakeReceipt(hash))),
+  } as unknown as ethers.TransactionResponse;
+}
+
+async function track(send: () => Promise<ethers.TransactionResponse>, options: Parameters<typeof trackTransaction>[2] = {}) {
+  const states: TransactionState[] = [];
+  const final = await trackTransaction(send, (state) => states.push(state), { pollIntervalMs: 5, ...options });
+  return { states, final, statuses: states.map((state) => state.status) };
+}
+
+describe('trackTransaction', () => {
+  it('follows a transaction to its confirmations', async () => {
+    const receipt = fakeReceipt('0xa', [1, 2, 3]);
+    const tx = fakeTx('0xa', { wait: async () => receipt });
+
+    const { statuses, states, final } = await track(async () => tx, { confirmations: 3 });
+
+    expect(statuses).toEqual(['awaiting-signature', 'submitted', 'confirming', 'confirming', 'confirmed']);
+    expect(states[2]).toMatchObject({ confirmations: 1, requiredConfirmations: 3 });
+    expect(states[3]).toMatchObject({ confirmations: 2, requiredConfirmations: 3 });
+    expect(final).toEqual({ status: 'confirmed', hash: '0xa', receipt });
+    expect(tx.wait).toHaveBeenLastCalledWith(3);
+  });
+
+  it('follows a speed-up to the replacement receipt', async () => {
+    const replacementReceipt = fakeReceipt('0xb');
+    const replacement = fakeTx('0xb', { wait: async () => replacementReceipt });
+    const tx = fakeTx('0xa', {
+      wait: () => Promise.reject(ethers.makeError('replaced', 'TRANSACTION_REPLACED', {
+        cancelled: false,
+        reason: 'repriced',
+        replacement,
+        hash: '0xa',
+        receipt: replacementReceipt,
+      })),
+    });
+
+    const { states, final } = await track(async () => tx);
+
+    expect(states[2]).toEqual({ status: 'submitted', hash: '0xb', speedUpOf: '0xa' });
+    expect(final).toEqual({ status: 'confirmed', hash: '0xb', receipt: replacementReceipt });
+  });
+
+  it.each(['cancelled', 'replaced'] as const)('ends in replaced when the transaction is %s', async (reason) => {
+    const receipt = fakeReceipt('0xc');
+    const tx = fakeTx('0xa', {
+      wait: () => Promise.reject(ethers.makeError('replaced', 'TRANSACTION_REPLACED', {
+        cancelled: true,
+        reason,
+        replacement: fakeTx('0xc'),
+        hash: '0xa',
+        receipt,
+      })),
+    });
+
+    const { final } = await track(async () => tx);
+
+    expect(final).toEqual({ status: 'replaced', hash: '0xa', replacementHash: '0xc', reason, receipt });
+  });
+
+  it('recovers the revert reason by replaying the call', async () => {
+    const receipt = fakeReceipt('0xa');
+    const replayError = ethers.makeError('execution reverted', 'CALL_EXCEPTION', {
+      action: 'call',
+      data: null,
+      reason: 'Data already verified',
+      transaction: { to: null, data: '0x1234' },
+      invocation: null,
+      revert: null,
+    });
+    const tx = fakeTx('0xa', {
+      wait: () => Promise.reject(ethers.makeError('transaction execution reverted', 'CALL_EXCEPTION', {
+        action: 'sendTransaction',
+        data: null,
+        reason: null,
+        transaction: { to: null, data: '0x1234' },
+        invocation: null,
+        revert: null,
+        receipt,
+      })),
+      call: () => Promise.reject(replayError),
+    });
+
+    const { final } = await track(async () => tx);
+
+    expect(final).toMatchObject({ status: 'reverted', hash: '0xa', receipt });
+    const error = (final as Extract<TransactionState, { status: 'reverted' }>).error;
+    expect(error).toBeInstanceOf(ContractRevertedError);
+    expect(error.message).toBe('Transaction reverted: Data already verified');
+    expect(tx.provider!.call).toHaveBeenCalledWith(expect.objectContaining({ blockTag: 99, data: '0x1234' }));
+  });
+
+  it('ends in dropped once the node forgets the transaction', async () => {
+    const tx = fakeTx('0xa', {
+      wait: () => new Promise(() => {}),
+      getTransaction: async () => null,
+    });
+
+    const { final } = await track(async () => tx, { dropTimeoutMs: 20 });
+
+    expect(final).toEqual({ status: 'dropped', hash: '0xa' });
+  });
+
+  it('ends in cancelled when the signal fires', async () => {
+    const controller = new AbortController();
+    const tx = fakeTx('0xa', { wait: () => new Promise(() => {}) });
+
+    const result = track(async () => {
+      setTimeout(() => controller.abort(), 0);
+      return tx;
+    }, { signal: controller.signal });
+
+    expect((await result).final).toEqual({ status: 'cancelled', hash: '0xa' });
+  });
+
+  it('does not send with an aborted signal', async () => {
+    const send = vi.fn();
+
+    const { statuses } = await track(send, { signal: AbortSignal.abort() });
+
+    expect(statuses).toEqual(['cancelled']);
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it('fails with WalletRejectedError when the wallet rejects', async () => {
+    const { statuses, final } = await track(() => Promise.reject(
+      ethers.makeError('user rejected action', 'ACTION_REJECTED', { action: 'sendTransaction', reason: 'rejected' })
+    ));
+
+    expect(statuses).toEqual(['awaiting-signature', 'failed']);
+    expect(final).toMatchObject({ status: 'failed', error: { code: 'WALLET_REJECTED' } });
+  });
+
+  it('fails on other errors while waiting', async () => {
+    const tx = fakeTx('0xa', { wait: () => Promise.reject(new Error('boom')) });
+
+    const { final } = await track(async () => tx);
+
+    expect(final).toMatchObject({ status: 'failed', error: { code: 'UNKNOWN', message: 'boom' } });
+  });
+});
+
+describe('isTransactionFinished', () => {
+  it('is true for terminal states only', () => {
+    expect(isTransactionFinished({ status: 'submitted', hash: '0xa' })).toBe(false);
+    expect(isTransactionFinished({ status: 'awaiting-signature' })).toBe(false);
+    expect(isTransactionFinished({ status: 'dropped', hash: '0xa' })).toBe(true);
+    expect(isTransactionFinished({ status: 'cancelled' })).toBe(true);
+  });
+});
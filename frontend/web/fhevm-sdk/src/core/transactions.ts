@@ -0,0 +1,215 @@
+/**
+ * FHEVM Transactions - Universal SDK
+ * Follows a transaction from the wallet prompt to its last confirmation,
+ * including speed-ups, cancellations and drops, as one stream of states
+ */
+
+import { ethers } from 'ethers';
+import { AbortedError, decodeRevert, toFhevmError, type ContractRevertedError, type FhevmError } from './errors.js';
+import { sleep } from './retry.js';
+
+export type TransactionStatus =
+  | 'idle'
+  | 'awaiting-signature'
+  | 'submitted'
+  | 'confirming'
+  | 'confirmed'
+  | 'reverted'
+  | 'replaced'
+  | 'dropped'
+  | 'failed'
+  | 'cancelled';
+
+export type TransactionState =
+  | { status: 'idle' }
+  | { status: 'awaiting-signature' }
+  /** `speedUpOf` is the hash of the transaction this one repriced */
+  | { status: 'submitted'; hash: string; speedUpOf?: string }
+  | { status: 'confirming'; hash: string; confirmations: number; requiredConfirmations: number; receipt: ethers.TransactionReceipt }
+  | { status: 'confirmed'; hash: string; receipt: ethers.TransactionReceipt }
+  | { status: 'reverted'; hash: string; receipt: ethers.TransactionReceipt | null; error: ContractRevertedError }
+  /** Another transaction with the same nonce, other than a speed-up, was mined instead */
+  | { status: 'replaced'; hash: string; replacementHash: string; reason: 'cancelled' | 'replaced'; receipt: ethers.TransactionReceipt }
+  | { status: 'dropped'; hash: string }
+  /** Rejected in the wallet, or failed before it was sent */
+  | { status: 'failed'; error: FhevmError }
+  /** Tracking stopped; a submitted transaction may still be mined */
+  | { status: 'cancelled'; hash?: string };
+
+export interface TrackTransactionOptions {
+  /** Confirmations before `confirmed` (default 1) */
+  confirmations?: number;
+  /** Decodes custom revert errors */
+  iface?: ethers.Interface;
+  /** How long a submitted transaction may be unknown to the node before it is `dropped` (default 5 minutes) */
+  dropTimeoutMs?: number;
+  /** How often to check whether the transaction is still known (default 4s) */
+  pollIntervalMs?: number;
+  /** Stop tracking and end in `cancelled` */
+  signal?: AbortSignal;
+}
+
+export const DEFAULT_DROP_TIMEOUT_MS = 5 * 60_000;
+const DEFAULT_POLL_INTERVAL_MS = 4_000;
+
+const TERMINAL_STATUSES: ReadonlySet<TransactionStatus> = new Set([
+  'confirmed',
+  'reverted',
+  'replaced',
+  'dropped',
+  'failed',
+  'cancelled',
+]);
+
+export function isTransactionFinished(state: TransactionState): boolean {
+  return TERMINAL_STATUSES.has(state.status);
+}
+
+class DroppedTransaction extends Error {}
+
+/**
+ * Settle with `promise`, or reject with AbortedError once `signal` fires
+ */
+function untilAborted<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(new AbortedError());
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new AbortedError());
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Reject with DroppedTransaction once the node has not known `hash` for `dropTimeoutMs`
+ */
+async function watchForDrop(
+  provider: ethers.Provider,
+  hash: string,
+  { dropTimeoutMs, pollIntervalMs }: Required<Pick<TrackTransactionOptions, 'dropTimeoutMs' | 'pollIntervalMs'>>,
+  signal: AbortSignal
+): Promise<never> {
+  let missingSince: number | null = null;
+  for (;;) {
+    await sleep(pollIntervalMs, signal);
+    const known = await provider.getTransaction(hash).catch(() => undefined);
+    if (known === null) {
+      missingSince ??= Date.now();
+      if (Date.now() - missingSince >= dropTimeoutMs) throw new DroppedTransaction();
+    } else if (known !== undefined) {
+      missingSince = null;
+    }
+  }
+}
+
+/**
+ * Replay a reverted transaction with eth_call to recover its revert data,
+ * which receipts do not carry
+ */
+async function revertOf(
+  tx: ethers.TransactionResponse,
+  receipt: ethers.TransactionReceipt | null,
+  error: unknown,
+  iface?: ethers.Interface
+): Promise<ContractRevertedError> {
+  try {
+    await tx.provider.call({
+      to: tx.to,
+      from: tx.from,
+      data: tx.data,
+      value: tx.value,
+      blockTag: receipt ? receipt.blockNumber - 1 : 'latest',
+    });
+  } catch (replayError) {
+    if (ethers.isError(replayError, 'CALL_EXCEPTION')) return decodeRevert(replayError, iface);
+  }
+  // The replay passed against the earlier state; report what we know
+  return decodeRevert(error, iface);
+}
+
+/**
+ * Send a transaction and report every state it goes through to `onState`.
+ * A speed-up is followed through to its own receipt; any other replacement,
+ * a drop, a revert or a wallet rejection ends tracking.
+ *
+ * @returns The final state
+ */
+export async function trackTransaction(
+  send: () => Promise<ethers.TransactionResponse>,
+  onState: (state: TransactionState) => void,
+  options: TrackTransactionOptions = {}
+): Promise<TransactionState> {
+  const {
+    confirmations: requiredConfirmations = 1,
+    iface,
+    dropTimeoutMs = DEFAULT_DROP_TIMEOUT_MS,
+    pollIntervalMs = DEFAULT_POLL_INTERVAL_MS,
+    signal,
+  } = options;
+
+  const update = (state: TransactionState) => {
+    onState(state);
+    return state;
+  };
+
+  if (signal?.aborted) return update({ status: 'cancelled' });
+  update({ status: 'awaiting-signature' });
+
+  let tx: ethers.TransactionResponse;
+  try {
+    tx = await untilAborted(send(), signal);
+  } catch (error) {
+    if (signal?.aborted) return update({ status: 'cancelled' });
+    return update({ status: 'failed', error: toFhevmError(error, iface) });
+  }
+  update({ status: 'submitted', hash: tx.hash });
+
+  for (;;) {
+    const dropWatch = new AbortController();
+    try {
+      // wait(1) only resolves once there is a receipt
+      const receipt = (await untilAborted(Promise.race([
+        tx.wait(1),
+        watchForDrop(tx.provider, tx.hash, { dropTimeoutMs, pollIntervalMs }, dropWatch.signal),
+      ]), signal))!;
+      dropWatch.abort();
+
+      for (let confirmations = await receipt.confirmations(); confirmations < requiredConfirmations; ) {
+        update({ status: 'confirming', hash: tx.hash, confirmations, requiredConfirmations, receipt });
+        await untilAborted(tx.wait(confirmations + 1), signal);
+        confirmations = await receipt.confirmations();
+      }
+      return update({ status: 'confirmed', hash: tx.hash, receipt });
+    } catch (error) {
+      dropWatch.abort();
+      if (signal?.aborted) return update({ status: 'cancelled', hash: tx.hash });
+      if (error instanceof DroppedTransaction) return update({ status: 'dropped', hash: tx.hash });
+
+      if (ethers.isError(error, 'TRANSACTION_REPLACED')) {
+        const { replacement, reason, receipt } = error;
+        if (reason === 'repriced') {
+          update({ status: 'submitted', hash: replacement.hash, speedUpOf: tx.hash });
+          tx = replacement;
+          continue;
+        }
+        return update({ status: 'replaced', hash: tx.hash, replacementHash: replacement.hash, reason, receipt });
+      }
+
+      if (ethers.isError(error, 'CALL_EXCEPTION')) {
+        const receipt = error.receipt ?? null;
+        return update({ status: 'reverted', hash: tx.hash, receipt, error: await revertOf(tx, receipt, error, iface) });
+      }
+
+      return update({ status: 'failed', error: toFhevmError(error, iface) });
+    }
+  }
+}
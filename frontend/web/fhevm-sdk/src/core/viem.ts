@@ -0,0 +1,71 @@
+/**
+ * viem Clients - Universal SDK
+ * Adapts the viem WalletClient and PublicClient that wagmi hands out to the
+ * ethers signer and provider the SDK works with, so every wallet a wagmi
+ * connector supports (WalletConnect, Coinbase Wallet, ...) can sign, read and write
+ */
+
+import { ethers } from 'ethers';
+import type { Eip1193Provider } from './client.js';
+import { MissingSignerError } from './errors.js';
+
+/**
+ * The parts of a viem Client the SDK uses; `usePublicClient()` results fit
+ * without the SDK depending on viem
+ */
+export interface ViemClient {
+  chain?: { id: number; name: string; contracts?: { ensRegistry?: { address: string } } };
+  request(args: { method: string; params?: any }): Promise<any>;
+}
+
+/**
+ * A viem Client with a connected account, as returned by `useWalletClient()`
+ */
+export interface ViemWalletClient extends ViemClient {
+  account?: { address: string; type: string };
+}
+
+/**
+ * EIP-1193 provider that routes requests through the client's transport
+ */
+export function viemClientToEip1193Provider(client: ViemClient): Eip1193Provider {
+  return {
+    request: ({ method, params }) => client.request({ method, params }),
+  };
+}
+
+function networkOf(client: ViemClient): ethers.Networkish | undefined {
+  const { chain } = client;
+  if (!chain) return undefined;
+  return { chainId: chain.id, name: chain.name, ensAddress: chain.contracts?.ensRegistry?.address };
+}
+
+/**
+ * Read-only ethers provider over a viem PublicClient (or the read side of a WalletClient)
+ */
+export function publicClientToProvider(client: ViemClient): ethers.BrowserProvider {
+  return new ethers.BrowserProvider(viemClientToEip1193Provider(client), networkOf(client));
+}
+
+/**
+ * ethers signer for the WalletClient's account; EIP-712 signatures and
+ * transactions are sent to the wallet through the client's connector
+ */
+export function walletClientToSigner(client: ViemWalletClient): ethers.JsonRpcSigner {
+  const { account } = client;
+  if (!account) {
+    throw new MissingSignerError('The wallet client has no account. Connect a wallet first.');
+  }
+  if (account.type === 'local') {
+    // A local account signs in-process; requests through the transport would reach the RPC node instead
+    throw new MissingSignerError('Local viem accounts are not supported. Use an ethers Wallet for private keys.');
+  }
+  return new ethers.JsonRpcSigner(publicClientToProvider(client), account.address);
+}
+
+/**
+ * `provider` and `signer` for `initialize()`, both backed by the WalletClient
+ */
+export function walletClientOptions(client: ViemWalletClient): { provider: Eip1193Provider; signer: ethers.JsonRpcSigner } {
+  return { provider: viemClientToEip1193Provider(client), signer: walletClientToSigner(client) };
+}
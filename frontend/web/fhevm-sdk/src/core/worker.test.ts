@@ -0,0 +1,107 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { browserPlatform } from './browser.js';
+import type { FhevmPlatformContext } from './client.js';
+
+const { relayer } = vi.hoisted(() => ({
+  relayer: {
+    initSDK: async () => true,
+    createInstance: async (config: Record<string, any>) => {
+      const chainId = await config.network.request({ method: 'eth_chainId' });
+      return { generateKeypair: () => ({ publicKey: `pub-${chainId}`, privateKey: 'priv' }) };
+    },
+  },
+}));
+
+vi.mock('@zama-fhe/relayer-sdk/web', () => {
+  // Like the real web entry, which assigns the WASM bindings to window on import
+  (window as any).TFHE = {};
+  return relayer;
+});
+
+type Listener = (event: { data: any }) => void;
+
+/**
+ * Runs fhevm.worker.ts in-process: `self` is stubbed as the worker scope
+ * and messages are cloned and delivered asynchronously in both directions
+ */
+class FakeWorker {
+  static spawned: FakeWorker[] = [];
+  private readonly mainListeners: Listener[] = [];
+  private readonly scopeListeners: Listener[] = [];
+  private readonly loaded: Promise<unknown>;
+  terminate = vi.fn();
+
+  constructor(readonly url: string | URL, readonly options?: WorkerOptions) {
+    FakeWorker.spawned.push(this);
+    vi.stubGlobal('self', {
+      postMessage: (data: any) => this.deliver(this.mainListeners, data),
+      addEventListener: (_type: string, listener: Listener) => this.scopeListeners.push(listener),
+    });
+    this.loaded = import('./fhevm.worker.js');
+  }
+
+  postMessage(data: any) {
+    this.loaded.then(() => this.deliver(this.scopeListeners, data));
+  }
+
+  addEventListener(type: string, listener: Listener) {
+    if (type === 'message') this.mainListeners.push(listener);
+  }
+
+  private deliver(listeners: Listener[], data: any) {
+    const event = { data: structuredClone(data) };
+    setTimeout(() => listeners.forEach((listener) => listener(event)));
+  }
+}
+
+function fakeLogger() {
+  return { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+}
+
+function context(logger = fakeLogger(), worker: FhevmPlatformContext['worker'] = true): FhevmPlatformContext {
+  return {
+    network: 11155111,
+    config: {},
+    provider: { request: vi.fn(async () => '0xaa36a7') },
+    relayerSdk: {},
+    worker,
+    logger,
+    run: (operation) => operation(new AbortController().signal),
+  };
+}
+
+describe('browserPlatform worker', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    // Each spawned worker evaluates the entry afresh
+    vi.resetModules();
+    FakeWorker.spawned = [];
+  });
+
+  it('creates the instance inside the bundled worker entry', async () => {
+    vi.stubGlobal('Worker', FakeWorker);
+    const logger = fakeLogger();
+
+    const { instance } = await browserPlatform.createInstance(context(logger));
+
+    expect(logger.warn).not.toHaveBeenCalled();
+    expect(FakeWorker.spawned).toHaveLength(1);
+    // Resolves against dist/core once built
+    expect(String(FakeWorker.spawned[0].url)).toMatch(/\/core\/fhevm\.worker\.js$/);
+    expect(FakeWorker.spawned[0].options).toEqual({ type: 'module' });
+    // The keypair comes back through the worker, built from a chain id read over the forwarded provider
+    expect(typeof instance.terminate).toBe('function');
+    await expect(instance.generateKeypair()).resolves.toEqual({ publicKey: 'pub-0xaa36a7', privateKey: 'priv' });
+  });
+
+  it('spawns a worker script from a caller-supplied URL', async () => {
+    vi.stubGlobal('Worker', FakeWorker);
+    const logger = fakeLogger();
+
+    const { instance } = await browserPlatform.createInstance(context(logger, '/assets/fhevm.worker.js'));
+
+    expect(logger.warn).not.toHaveBeenCalled();
+    expect(FakeWorker.spawned[0].url).toBe('/assets/fhevm.worker.js');
+    await expect(instance.generateKeypair()).resolves.toEqual({ publicKey: 'pub-0xaa36a7', privateKey: 'priv' });
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * FHEVM Worker Proxy - Universal SDK
+ * Runs the relayer instance in a dedicated Web Worker so proof generation
+ * and decryption never block the main thread. The proxy exposes the same
+ * instance API, except that generateKeypair and createEIP712 return promises.
+ */
+
+import type { Eip1193Provider } from './client.js';
+import type { RelayerSdkOptions } from './relayerSdk.js';
+import {
+  deserializeError,
+  serializeError,
+  type EncryptedInputOp,
+  type WorkerCallMethod,
+  type WorkerCommand,
+  type WorkerRequest,
+  type WorkerResponse,
+} from './workerProtocol.js';
+
+export interface WorkerFhevmInstanceOptions {
+  worker: Worker;
+  /** Relayer `createInstance` config, without `network` */
+  config: Record<string, any>;
+  /** Answers the worker's chain reads */
+  provider: Eip1193Provider;
+  /** WASM asset URLs and integrity hashes, resolved inside the worker */
+  relayerSdk?: RelayerSdkOptions;
+}
+
+const INPUT_METHODS = ['addBool', 'add8', 'add16', 'add32', 'add64', 'add128', 'add256', 'addAddress'] as const;
+
+export function isWorkerSupported() {
+  return typeof Worker !== 'undefined';
+}
+
+/**
+ * Spawn the worker entry at `url`, or the one shipped next to this module.
+ * The default resolves against the built `dist/core/fhevm.worker.js`; apps that
+ * compile the SDK from source pass the URL of `src/core/fhevm.worker.ts` instead.
+ */
+export function createFhevmWorker(url?: string | URL): Worker {
+  if (url) return new Worker(url, { type: 'module' });
+  return new Worker(new URL('./fhevm.worker.js', import.meta.url), { type: 'module' });
+}
+
+/**
+ * Initialize a relayer instance inside `worker` and return a proxy to it.
+ * `terminate()` stops the worker and rejects calls still in flight.
+ */
+export async function createWorkerFhevmInstance({ worker, config, provider, relayerSdk = {} }: WorkerFhevmInstanceOptions) {
+  let nextId = 0;
+  const pending = new Map<number, { resolve: (value: any) => void; reject: (error: unknown) => void }>();
+
+  const post = (request: WorkerRequest) => worker.postMessage(request);
+
+  const rejectAll = (error: Error) => {
+    for (const entry of pending.values()) entry.reject(error);
+    pending.clear();
+  };
+
+  worker.addEventListener('message', async (event: MessageEvent<WorkerResponse>) => {
+    const message = event.data;
+
+    if (message.type === 'rpc') {
+      try {
+        const result = await provider.request({ method: message.method, params: message.params });
+        post({ type: 'rpcResult', rpcId: message.rpcId, result });
+      } catch (error) {
+        post({ type: 'rpcResult', rpcId: message.rpcId, error: serializeError(error) });
+      }
+      return;
+    }
+
+    const entry = pending.get(message.id);
+    pending.delete(message.id);
+    if (message.type === 'result') {
+      entry?.resolve(message.result);
+    } else {
+      entry?.reject(deserializeError(message.error));
+    }
+  });
+
+  worker.addEventListener('error', (event) => {
+    rejectAll(new Error(`FHEVM worker failed: ${event.message || 'could not load worker script'}`));
+  });
+
+  const send = (command: WorkerCommand): Promise<any> => {
+    const id = nextId++;
+    return new Promise((resolve, reject) => {
+      pending.set(id, { resolve, reject });
+      post({ ...command, id });
+    });
+  };
+
+  const call = (method: WorkerCallMethod, args: any[] = []) => send({ type: 'call', method, args });
+
+  await send({ type: 'init', config, relayerSdk });
+
+  return {
+    createEncryptedInput(contractAddress: string, userAddress: string) {
+      const ops: EncryptedInputOp[] = [];
+      const input: Record<string, any> = {
+        encrypt: () => send({ type: 'encrypt', contractAddress, userAddress, ops }),
+      };
+      for (const method of INPUT_METHODS) {
+        input[method] = (value: any) => {
+          ops.push({ method, value });
+          return input;
+        };
+      }
+      return input;
+    },
+    generateKeypair: (): Promise<{ publicKey: string; privateKey: string }> => call('generateKeypair'),
+    createEIP712: (...args: any[]) => call('createEIP712', args),
+    userDecrypt: (...args: any[]) => call('userDecrypt', args),
+    publicDecrypt: (handles: (string | Uint8Array)[]) => call('publicDecrypt', [handles]),
+    terminate() {
+      worker.terminate();
+      rejectAll(new Error('FHEVM worker terminated'));
+    },
+  };
+}
@@ -0,0 +1,60 @@
+/**
+ * FHEVM Worker Protocol - Universal SDK
+ * Messages exchanged between the worker proxy and the worker entry
+ */
+
+import type { RelayerSdkOptions } from './relayerSdk.js';
+
+export type WorkerCallMethod = 'generateKeypair' | 'createEIP712' | 'userDecrypt' | 'publicDecrypt';
+
+/**
+ * An error flattened for postMessage, keeping what toFhevmError classifies on
+ */
+export interface WorkerErrorPayload {
+  name: string;
+  message: string;
+  code?: string | number;
+  cause?: { code?: string; operation?: string; status?: number };
+}
+
+export interface EncryptedInputOp {
+  /** `addBool`, `add8` ... `add256`, `addAddress` */
+  method: string;
+  value: any;
+}
+
+export type WorkerCommand =
+  | { type: 'init'; config: Record<string, any>; relayerSdk: RelayerSdkOptions }
+  | { type: 'call'; method: WorkerCallMethod; args: any[] }
+  | { type: 'encrypt'; contractAddress: string; userAddress: string; ops: EncryptedInputOp[] };
+
+/** Main thread -> worker */
+export type WorkerRequest =
+  | (WorkerCommand & { id: number })
+  | { type: 'rpcResult'; rpcId: number; result?: any; error?: WorkerErrorPayload };
+
+/** Worker -> main thread */
+export type WorkerResponse =
+  | { type: 'result'; id: number; result: any }
+  | { type: 'error'; id: number; error: WorkerErrorPayload }
+  | { type: 'rpc'; rpcId: number; method: string; params?: any[] };
+
+export function serializeError(error: any): WorkerErrorPayload {
+  const cause = error?.cause;
+  return {
+    name: typeof error?.name === 'string' ? error.name : 'Error',
+    message: typeof error?.message === 'string' ? error.message : String(error),
+    code: typeof error?.code === 'string' || typeof error?.code === 'number' ? error.code : undefined,
+    cause: cause && typeof cause === 'object'
+      ? { code: cause.code, operation: cause.operation, status: cause.status }
+      : undefined,
+  };
+}
+
+export function deserializeError(payload: WorkerErrorPayload): Error {
+  return Object.assign(new Error(payload.message), {
+    name: payload.name,
+    code: payload.code,
+    cause: payload.cause,
+  });
+}
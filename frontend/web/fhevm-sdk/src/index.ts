@@ -1,12 +1,49 @@
 /**
  * Universal FHEVM SDK
  * Clean, simple implementation that actually works
+ *
+ * Browser entry point. Node.js resolves `@fhevm-sdk/node` instead through
+ * the package's conditional exports.
  */
 
+import { setDefaultPlatform } from './core/client.js';
+import { browserPlatform } from './core/browser.js';
+
 // Core FHEVM functionality
 export * from './core/index.js';
 
-// Framework adapters - explicit exports to avoid conflicts
-export { useWallet, useFhevm, useContract, useDecrypt, useEncrypt } from './adapters/react.js';
+// Browser platform: relayer bundle loading and Web Worker hosting
+export { browserPlatform } from './core/browser.js';
+export * from './core/relayerSdk.js';
+export * from './core/worker.js';
 
+// Framework adapters - explicit exports to avoid conflicts
+export {
+  useWallet,
+  useFhevm,
+  useContract,
+  useDecrypt,
+  useEncrypt,
+  useEncryptedValue,
+  useTransaction,
+  useTransactionHistory,
+  getTransactionStore,
+  TransactionStore,
+  FhevmProvider,
+  useFhevmClient,
+  useFhevmStatus,
+  type UseContractOptions,
+  type FhevmProviderProps,
+  type FhevmState,
+  type FhevmStatus,
+  type DecryptionVerifyFunction,
+  type DecryptionVerifyTarget,
+  type HandleDecryption,
+  type UserDecryptOptions,
+  type EncryptedValueStatus,
+  type UseEncryptedValueOptions,
+  type TrackedTransaction,
+  type UseTransactionOptions,
+} from './adapters/react.js';
 
+setDefaultPlatform(browserPlatform);
@@ -0,0 +1,14 @@
+/**
+ * Universal FHEVM SDK - Node.js
+ * Shared core with the Node.js platform; no React hooks or browser-only modules
+ */
+
+import { setDefaultPlatform } from './core/client.js';
+import { nodePlatform } from './core/node.js';
+
+// Core FHEVM functionality
+export * from './core/index.js';
+
+export { nodePlatform } from './core/node.js';
+
+setDefaultPlatform(nodePlatform);
@@ -0,0 +1,13 @@
+import { defineConfig } from 'vitest/config';
+
+// Keeps vitest from picking up the app's vite.config.ts one directory up
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.ts'],
+    environment: 'node',
+    coverage: {
+      include: ['src/**/*.ts'],
+      exclude: ['src/**/*.test.ts', 'src/types/**'],
+    },
+  },
+});
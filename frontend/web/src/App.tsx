@@ -1,10 +1,10 @@
 import { ConnectButton } from '@rainbow-me/rainbowkit';
 import '@rainbow-me/rainbowkit/styles.css';
-import React, { JSX, useEffect, useState } from "react";
+import React, { JSX, useEffect, useMemo, useState } from "react";
 import { getContractReadOnly, getContractWithSigner } from "./components/useContract";
 import "./App.css";
-import { useAccount } from 'wagmi';
-import { useFhevm, useEncrypt, useDecrypt } from '../fhevm-sdk/src';
+import { useAccount, useWalletClient } from 'wagmi';
+import { useFhevm, useFhevmStatus, useEncrypt, useDecrypt, toFhevmError, ContractRevertedError, formatHandle, FhevmContract, useEncryptedValue, useTransaction, useTransactionHistory, walletClientToSigner, type TrackedTransaction } from '../fhevm-sdk/src';
 import { ethers } from 'ethers';
 
 interface InsurancePolicy {
@@ -31,6 +31,9 @@ interface PremiumAnalysis {
 
 const App: React.FC = () => {
   const { address, isConnected } = useAccount();
+  const { data: walletClient } = useWalletClient();
+  // Backed by whichever wallet RainbowKit connected (injected, WalletConnect, Coinbase Wallet, ...)
+  const signer = useMemo(() => walletClient ? walletClientToSigner(walletClient) : null, [walletClient]);
   const [loading, setLoading] = useState(true);
   const [policies, setPolicies] = useState<InsurancePolicy[]>([]);
   const [isRefreshing, setIsRefreshing] = useState(false);
@@ -46,48 +49,26 @@ const App: React.FC = () => {
   const [decryptedData, setDecryptedData] = useState<{ drivingScore: number | null; premiumDiscount: number | null }>({ drivingScore: null, premiumDiscount: null });
   const [isDecrypting, setIsDecrypting] = useState(false);
   const [contractAddress, setContractAddress] = useState("");
-  const [fhevmInitializing, setFhevmInitializing] = useState(false);
+  const [readContract, setReadContract] = useState<ethers.Contract | null>(null);
   const [showFAQ, setShowFAQ] = useState(false);
   const [showStats, setShowStats] = useState(true);
 
-  const { status, initialize, isInitialized } = useFhevm();
+  const { status, isInitialized } = useFhevm();
+  const fhevmError = useFhevmStatus((state) => state.error);
   const { encrypt, isEncrypting} = useEncrypt();
   const { verifyDecryption, isDecrypting: fheIsDecrypting } = useDecrypt();
+  const { execute: executeTransaction } = useTransaction();
 
   useEffect(() => {
-    const initFhevmAfterConnection = async () => {
-      if (!isConnected) {
-        return;
-      }
-      
-      if (isInitialized) {
-        return;
-      }
-      
-      if (fhevmInitializing) {
-        return;
-      }
-      
-      try {
-        setFhevmInitializing(true);
-        console.log('Initializing FHEVM after wallet connection...');
-        await initialize();
-        console.log('FHEVM initialized successfully');
-      } catch (error) {
-        console.error('Failed to initialize FHEVM:', error);
-        setTransactionStatus({ 
-          visible: true, 
-          status: "error", 
-          message: "FHEVM initialization failed. Please check your wallet connection." 
-        });
-        setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
-      } finally {
-        setFhevmInitializing(false);
-      }
-    };
-
-    initFhevmAfterConnection();
-  }, [isConnected, isInitialized, initialize, fhevmInitializing]);
+    if (!fhevmError) return;
+    // FhevmProvider retries on the next chain or account change
+    setTransactionStatus({ 
+      visible: true, 
+      status: "error", 
+      message: "FHEVM initialization failed. Please check your wallet connection." 
+    });
+    setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+  }, [fhevmError]);
 
   useEffect(() => {
     const loadDataAndContract = async () => {
@@ -99,9 +80,13 @@ const App: React.FC = () => {
       try {
         await loadData();
         const contract = await getContractReadOnly();
-        if (contract) setContractAddress(await contract.getAddress());
+        if (contract) {
+          setContractAddress(await contract.getAddress());
+          setReadContract(contract);
+        }
       } catch (error) {
-        console.error('Failed to load data:', error);
+        setTransactionStatus({ visible: true, status: "error", message: "Failed to connect to the contract: " + toFhevmError(error).message });
+        setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
       } finally {
         setLoading(false);
       }
@@ -110,6 +95,34 @@ const App: React.FC = () => {
     loadDataAndContract();
   }, [isConnected]);
 
+  useEffect(() => {
+    if (!isConnected) return;
+
+    // Pick up policies created or verified by other users, not only our own transactions
+    let cancelled = false;
+    let unsubscribe: (() => void) | undefined;
+    const reportSubscriptionError = (message: string) => {
+      if (cancelled) return;
+      setTransactionStatus({ visible: true, status: "error", message });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    };
+    getContractReadOnly().then((contract) => {
+      if (!contract || cancelled) return;
+      const adapter = new FhevmContract(contract, contract.target as string);
+      const stops = ['BusinessDataCreated', 'DecryptionVerified', 'PublicDecryptionVerified'].map((eventName) =>
+        adapter.subscribe(eventName, () => loadData(), {
+          onError: (error) => reportSubscriptionError(`Live updates stopped (${eventName}): ${error.message}`),
+        })
+      );
+      unsubscribe = () => stops.forEach((stop) => stop());
+    }, (error) => reportSubscriptionError("Live updates unavailable: " + toFhevmError(error).message));
+
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+    };
+  }, [isConnected]);
+
   const loadData = async () => {
     if (!isConnected) return;
     
@@ -120,28 +133,39 @@ const App: React.FC = () => {
       
       const businessIds = await contract.getAllBusinessIds();
       const policiesList: InsurancePolicy[] = [];
+      let failedCount = 0;
       
       for (const businessId of businessIds) {
-        try {
-          const businessData = await contract.getBusinessData(businessId);
-          policiesList.push({
-            id: parseInt(businessId.replace('policy-', '')) || Date.now(),
-            name: businessData.name,
-            drivingScore: businessId,
-            premiumDiscount: businessId,
-            timestamp: Number(businessData.timestamp),
-            creator: businessData.creator,
-            publicValue1: Number(businessData.publicValue1) || 0,
-            publicValue2: Number(businessData.publicValue2) || 0,
-            isVerified: businessData.isVerified,
-            decryptedValue: Number(businessData.decryptedValue) || 0
-          });
-        } catch (e) {
-          console.error('Error loading business data:', e);
+        // A policy is still listed when only its ciphertext handle cannot be read
+        const [dataResult, handleResult] = await Promise.allSettled([
+          contract.getBusinessData(businessId),
+          contract.getEncryptedValue(businessId),
+        ]);
+        if (dataResult.status === "rejected") {
+          failedCount++;
+          continue;
         }
+        const businessData = dataResult.value;
+        policiesList.push({
+          id: parseInt(businessId.replace('policy-', '')) || Date.now(),
+          name: businessData.name,
+          drivingScore: businessId,
+          premiumDiscount: businessId,
+          timestamp: Number(businessData.timestamp),
+          creator: businessData.creator,
+          publicValue1: Number(businessData.publicValue1) || 0,
+          publicValue2: Number(businessData.publicValue2) || 0,
+          isVerified: businessData.isVerified,
+          decryptedValue: Number(businessData.decryptedValue) || 0,
+          encryptedValueHandle: handleResult.status === "fulfilled" ? handleResult.value : undefined
+        });
       }
       
       setPolicies(policiesList);
+      if (failedCount > 0) {
+        setTransactionStatus({ visible: true, status: "error", message: `${failedCount} ${failedCount === 1 ? "policy" : "policies"} could not be loaded` });
+        setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+      }
     } catch (e) {
       setTransactionStatus({ visible: true, status: "error", message: "Failed to load data" });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
@@ -171,7 +195,7 @@ const App: React.FC = () => {
   };
 
   const createPolicy = async () => {
-    if (!isConnected || !address) { 
+    if (!isConnected || !address || !signer) { 
       setTransactionStatus({ visible: true, status: "error", message: "Please connect wallet first" });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
       return; 
@@ -181,15 +205,16 @@ const App: React.FC = () => {
     setTransactionStatus({ visible: true, status: "pending", message: "Creating insurance policy with Zama FHE..." });
     
     try {
-      const contract = await getContractWithSigner();
-      if (!contract) throw new Error("Failed to get contract with signer");
+      const contract = await getContractWithSigner(signer);
       
       const drivingScoreValue = parseInt(newPolicyData.drivingScore) || 0;
       const businessId = `policy-${Date.now()}`;
       
       const encryptedResult = await encrypt(contractAddress, address, drivingScoreValue);
       
-      const tx = await contract.createBusinessData(
+      // From here the transaction toast follows the lifecycle
+      setTransactionStatus({ visible: false, status: "pending", message: "" });
+      const result = await executeTransaction(() => contract.createBusinessData(
         businessId,
         newPolicyData.name,
         encryptedResult.encryptedData,
@@ -197,23 +222,19 @@ const App: React.FC = () => {
         parseInt(newPolicyData.basePremium) || 0,
         0,
         "Encrypted Driving Behavior Insurance Policy"
-      );
-      
-      setTransactionStatus({ visible: true, status: "pending", message: "Waiting for transaction confirmation..." });
-      await tx.wait();
-      
-      setTransactionStatus({ visible: true, status: "success", message: "Insurance policy created successfully!" });
-      setTimeout(() => {
-        setTransactionStatus({ visible: false, status: "pending", message: "" });
-      }, 2000);
+      ), { label: "Insurance policy", iface: contract.interface });
+      if (result.status !== "confirmed") return;
       
       await loadData();
       setShowCreateModal(false);
       setNewPolicyData({ name: "", drivingScore: "", basePremium: "" });
     } catch (e: any) {
-      const errorMessage = e.message?.includes("user rejected transaction") 
+      const error = toFhevmError(e);
+      const errorMessage = error.code === "WALLET_REJECTED"
         ? "Transaction rejected by user" 
-        : "Submission failed: " + (e.message || "Unknown error");
+        : error.code === "WRONG_CHAIN"
+          ? error.message
+          : "Submission failed: " + (error.message || "Unknown error");
       setTransactionStatus({ visible: true, status: "error", message: errorMessage });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
     } finally { 
@@ -222,7 +243,7 @@ const App: React.FC = () => {
   };
 
   const decryptData = async (businessId: string): Promise<number | null> => {
-    if (!isConnected || !address) { 
+    if (!isConnected || !address || !signer) { 
       setTransactionStatus({ visible: true, status: "error", message: "Please connect wallet first" });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
       return null; 
@@ -249,16 +270,19 @@ const App: React.FC = () => {
         return storedValue;
       }
       
-      const contractWrite = await getContractWithSigner();
-      if (!contractWrite) return null;
+      const contractWrite = await getContractWithSigner(signer);
       
       const encryptedValueHandle = await contractRead.getEncryptedValue(businessId);
       
+      // The proof is checked against the KMS signers and the call simulated before the wallet prompt
       const result = await verifyDecryption(
         [encryptedValueHandle],
         contractAddress,
-        (abiEncodedClearValues: string, decryptionProof: string) => 
-          contractWrite.verifyDecryption(businessId, abiEncodedClearValues, decryptionProof)
+        {
+          contract: contractWrite,
+          functionName: "verifyDecryption",
+          args: (abiEncodedClearValues: string, decryptionProof: string) => [businessId, abiEncodedClearValues, decryptionProof],
+        }
       );
       
       setTransactionStatus({ visible: true, status: "pending", message: "Verifying decryption on-chain..." });
@@ -275,7 +299,8 @@ const App: React.FC = () => {
       return Number(clearValue);
       
     } catch (e: any) { 
-      if (e.message?.includes("Data already verified")) {
+      const error = toFhevmError(e);
+      if (error instanceof ContractRevertedError && error.reason === "Data already verified") {
         setTransactionStatus({ 
           visible: true, 
           status: "success", 
@@ -292,7 +317,17 @@ const App: React.FC = () => {
       setTransactionStatus({ 
         visible: true, 
         status: "error", 
-        message: "Decryption failed: " + (e.message || "Unknown error") 
+        message: error.code === "WALLET_REJECTED"
+          ? "Transaction rejected by user"
+          : error.code === "WRONG_CHAIN"
+            ? error.message
+            : error.code === "ACL_DENIED"
+              ? "This value has not been made publicly decryptable yet"
+              : error.code === "PROOF_INVALID" || (error instanceof ContractRevertedError && error.errorName === "InvalidKMSSignatures")
+                ? "The decryption proof was not signed by the KMS; nothing was submitted"
+                : error instanceof ContractRevertedError && error.errorName === "ZamaProtocolUnsupported"
+                  ? "This network does not support the Zama protocol"
+                  : "Decryption failed: " + (error.message || "Unknown error") 
       });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
       return null; 
@@ -507,12 +542,12 @@ const App: React.FC = () => {
     );
   }
 
-  if (!isInitialized || fhevmInitializing) {
+  if (!isInitialized) {
     return (
       <div className="loading-screen">
         <div className="fhe-spinner"></div>
         <p>Initializing FHE Encryption System...</p>
-        <p>Status: {fhevmInitializing ? "Initializing FHEVM" : status}</p>
+        <p>Status: {fhevmError ? fhevmError.message : status}</p>
         <p className="loading-note">Securing your privacy with homomorphic encryption</p>
       </div>
     );
@@ -663,10 +698,15 @@ const App: React.FC = () => {
           setDecryptedData={setDecryptedData} 
           isDecrypting={isDecrypting || fheIsDecrypting} 
           decryptData={() => decryptData(selectedPolicy.drivingScore)}
+          isOwnPolicy={!!address && address.toLowerCase() === selectedPolicy.creator.toLowerCase()}
+          readContract={readContract}
+          signer={signer}
           renderPremiumChart={renderPremiumChart}
         />
       )}
       
+      <TransactionToast />
+      
       {transactionStatus.visible && (
         <div className="transaction-modal">
           <div className="transaction-content">
@@ -683,6 +723,68 @@ const App: React.FC = () => {
   );
 };
 
+const describeTransaction = (transaction: TrackedTransaction): { status: "pending" | "success" | "error"; message: string } => {
+  switch (transaction.status) {
+    case "confirmed":
+      return { status: "success", message: `${transaction.label ?? "Transaction"} confirmed!` };
+    case "reverted":
+      return { status: "error", message: transaction.error.message };
+    case "replaced":
+      return { status: "error", message: transaction.reason === "cancelled" ? "Transaction was cancelled in your wallet" : "Transaction was replaced by another one" };
+    case "dropped":
+      return { status: "error", message: "Transaction was dropped by the network" };
+    case "failed":
+      return { 
+        status: "error", 
+        message: transaction.error.code === "WALLET_REJECTED" 
+          ? "Transaction rejected by user" 
+          : "Submission failed: " + (transaction.error.message || "Unknown error") 
+      };
+    case "cancelled":
+      return { status: "error", message: "Stopped waiting for the transaction" };
+    case "awaiting-signature":
+      return { status: "pending", message: "Confirm the transaction in your wallet..." };
+    case "submitted":
+      return { status: "pending", message: transaction.speedUpOf ? "Sped-up transaction submitted..." : "Waiting for transaction confirmation..." };
+    case "confirming":
+      return { status: "pending", message: `Waiting for confirmations (${transaction.confirmations}/${transaction.requiredConfirmations})...` };
+    default:
+      return { status: "pending", message: "" };
+  }
+};
+
+const TRANSACTION_TOAST_MS = 3000;
+
+const TransactionToast: React.FC = () => {
+  const { transactions } = useTransactionHistory();
+  const latest = transactions[transactions.length - 1];
+  const [now, setNow] = useState(Date.now());
+  
+  // Re-render once a finished transaction's toast has been shown long enough
+  useEffect(() => {
+    if (!latest) return;
+    const timer = setTimeout(() => setNow(Date.now()), TRANSACTION_TOAST_MS);
+    return () => clearTimeout(timer);
+  }, [latest]);
+  
+  if (!latest || latest.status === "idle") return null;
+  const { status, message } = describeTransaction(latest);
+  if (status !== "pending" && now - latest.updatedAt >= TRANSACTION_TOAST_MS) return null;
+  
+  return (
+    <div className="transaction-modal">
+      <div className="transaction-content">
+        <div className={`transaction-icon ${status}`}>
+          {status === "pending" && <div className="fhe-spinner"></div>}
+          {status === "success" && <div className="success-icon">✓</div>}
+          {status === "error" && <div className="error-icon">✗</div>}
+        </div>
+        <div className="transaction-message">{message}</div>
+      </div>
+    </div>
+  );
+};
+
 const ModalCreatePolicy: React.FC<{
   onSubmit: () => void; 
   onClose: () => void; 
@@ -770,6 +872,14 @@ const ModalCreatePolicy: React.FC<{
   );
 };
 
+const describeHandle = (handle: string) => {
+  try {
+    return formatHandle(handle);
+  } catch {
+    return `${handle.substring(0, 10)}...`;
+  }
+};
+
 const PolicyDetailModal: React.FC<{
   policy: InsurancePolicy;
   onClose: () => void;
@@ -777,8 +887,22 @@ const PolicyDetailModal: React.FC<{
   setDecryptedData: (value: { drivingScore: number | null; premiumDiscount: number | null }) => void;
   isDecrypting: boolean;
   decryptData: () => Promise<number | null>;
+  isOwnPolicy: boolean;
+  readContract: ethers.Contract | null;
+  signer: ethers.Signer | null;
   renderPremiumChart: (policy: InsurancePolicy, decryptedDrivingScore: number | null, decryptedDiscount: number | null) => JSX.Element;
-}> = ({ policy, onClose, decryptedData, setDecryptedData, isDecrypting, decryptData, renderPremiumChart }) => {
+}> = ({ policy, onClose, decryptedData, setDecryptedData, isDecrypting, decryptData, isOwnPolicy, readContract, signer, renderPremiumChart }) => {
+  const [revealed, setRevealed] = useState(false);
+  // Decrypted for this wallet only; nothing is written on-chain
+  const privateScore = useEncryptedValue({
+    contract: readContract,
+    getter: "getEncryptedValue",
+    args: [policy.drivingScore],
+    mode: "user",
+    signer,
+    enabled: isOwnPolicy && revealed && signer !== null,
+  });
+
   const handleDecrypt = async () => {
     if (decryptedData.drivingScore !== null) { 
       setDecryptedData({ drivingScore: null, premiumDiscount: null }); 
@@ -817,6 +941,12 @@ const PolicyDetailModal: React.FC<{
               <span>Base Premium:</span>
               <strong>${policy.publicValue1}</strong>
             </div>
+            {policy.encryptedValueHandle && (
+              <div className="info-item">
+                <span>Ciphertext:</span>
+                <strong title={policy.encryptedValueHandle}>{describeHandle(policy.encryptedValueHandle)}</strong>
+              </div>
+            )}
           </div>
           
           <div className="data-section">
@@ -849,6 +979,27 @@ const PolicyDetailModal: React.FC<{
               </button>
             </div>
             
+            {isOwnPolicy && !policy.isVerified && (
+              <div className="data-row">
+                <div className="data-label">Your Private Score:</div>
+                <div className="data-value">
+                  {privateScore.status === "ready" && privateScore.value !== undefined ? 
+                    `${privateScore.value}/100 (Only visible to you)` : 
+                    privateScore.status === "error" ? 
+                    privateScore.error?.code === "ACL_DENIED" ? "Your wallet is not allowed to decrypt this score" : privateScore.error?.message : 
+                    "🔒 FHE Encrypted Score"
+                  }
+                </div>
+                <button 
+                  className={`decrypt-btn ${privateScore.status === "ready" ? 'decrypted' : ''}`}
+                  onClick={privateScore.status === "error" ? privateScore.refresh : () => setRevealed(true)} 
+                  disabled={privateScore.status === "reading" || privateScore.status === "decrypting" || privateScore.status === "ready"}
+                >
+                  {privateScore.status === "reading" || privateScore.status === "decrypting" ? "🔓 Decrypting..." : privateScore.status === "error" ? "🔄 Retry" : "👁 View Privately"}
+                </button>
+              </div>
+            )}
+            
             <div className="fhe-info gold-panel">
               <div className="fhe-icon">🔐</div>
               <div>
@@ -2,22 +2,11 @@
 import { ethers } from "ethers";
 import abiJson from "../abi/UniversalFHEAdapter.json";
 import configJson from "../config.json";
+import { WrongChainError, withRetry, withTimeout } from "../../fhevm-sdk/src";
 
 export const ABI = (abiJson as any).abi || abiJson;
 export const config = configJson;
 
-const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
-  try {
-    return await fn();
-  } catch (e) {
-    if (retries > 0) {
-      await new Promise(res => setTimeout(res, delay));
-      return retry(fn, retries - 1, delay * 2);
-    }
-    throw e;
-  }
-};
-
 const getTestnetProvider = async () => {
   const rpcUrls = [
     "https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3",
@@ -34,12 +23,7 @@ const getTestnetProvider = async () => {
         chainId: 11155111
       });
       
-      const blockNumber = await Promise.race([
-        provider.getBlockNumber(),
-        new Promise((_, reject) => 
-          setTimeout(() => reject(new Error("RPC timeout")), 10000)
-        )
-      ]);
+      await withTimeout(() => provider.getBlockNumber(), { timeoutMs: 10000 });
       
       return provider;
     } catch (error) {
@@ -49,45 +33,30 @@ const getTestnetProvider = async () => {
   throw new Error("All RPC providers failed");
 };
 
+// Resolves to null when nothing is deployed at the configured address; RPC failures reject so callers can report them
 export async function getContractReadOnly() {
-  try {
-    const provider = await getTestnetProvider();
-    const contract = new ethers.Contract(config.contractAddress, ABI, provider);
-    
-    const code = await retry(() => provider.getCode(config.contractAddress));
-    if (code === "0x") {
-      return null;
-    }
-    
-    return contract;
-  } catch (error) {
-    console.error("Failed to create read-only contract:", error);
+  const provider = await getTestnetProvider();
+  const contract = new ethers.Contract(config.contractAddress, ABI, provider);
+  
+  const code = await withRetry(() => provider.getCode(config.contractAddress), { retry: { retries: 3 } });
+  if (code === "0x") {
     return null;
   }
+  
+  return contract;
 }
 
-export async function getContractWithSigner() {
-  if (!(window as any).ethereum) {
-    throw new Error("No injected wallet");
+export async function getContractWithSigner(signer: ethers.Signer) {
+  // The signer comes from wagmi's wallet client, so any connected wallet works, not only injected ones
+  const network = await signer.provider?.getNetwork();
+  if (network && network.chainId !== 11155111n) {
+    throw new WrongChainError("Please switch to Sepolia test network", {
+      chainId: Number(network.chainId),
+      expectedChainId: 11155111
+    });
   }
 
-  // const provider = new ethers.BrowserProvider(window.ethereum);
-  // const network = await provider.getNetwork();
-  // console.log("network ID:", network.chainId);
-
-  if (window.ethereum && window.ethereum.chainId !== '0xaa36a7') {
-    alert("Please switch to Sepolia test network");
-  }
-
-  try {
-    const provider = new ethers.BrowserProvider((window as any).ethereum);
-    const signer = await provider.getSigner();
-    const contract = new ethers.Contract(config.contractAddress, ABI, signer);
-    return contract;
-  } catch (error) {
-    console.error("Failed to create contract with signer:", error);
-    throw error;
-  }
+  return new ethers.Contract(config.contractAddress, ABI, signer);
 }
 
 export function normAddr(a: string) { 
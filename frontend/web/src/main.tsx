@@ -2,11 +2,12 @@ import React, { useEffect, useState } from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App';
 import { getDefaultConfig, RainbowKitProvider, lightTheme } from '@rainbow-me/rainbowkit';
-import { WagmiConfig } from 'wagmi';
+import { WagmiConfig, useAccount, useWalletClient } from 'wagmi';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import '@rainbow-me/rainbowkit/styles.css';
 import { sepolia } from 'wagmi/chains';
 import { BrowserRouter } from 'react-router-dom';
+import { FhevmProvider } from '../fhevm-sdk/src';
 
 const projectId = '4eeb32175359e6b21f4e3ceae163ccea';
 
@@ -18,6 +19,11 @@ const config = getDefaultConfig({
 
 const queryClient = new QueryClient();
 
+// The app compiles the SDK from source, so point Vite at the TypeScript worker entry
+const fhevmConfig = {
+  worker: () => new Worker(new URL('../fhevm-sdk/src/core/fhevm.worker.ts', import.meta.url), { type: 'module' }),
+};
+
 const calculateBrightness = (r: number, g: number, b: number) => {
   return (r * 299 + g * 587 + b * 114) / 1000;
 };
@@ -116,13 +122,27 @@ const AdaptiveThemeProvider: React.FC<{ children: React.ReactNode }> = ({ childr
   );
 };
 
+// Initialize once a wallet is connected; proofs are built in a worker so the policy form stays responsive.
+// The wallet client covers every RainbowKit connector, not only injected wallets.
+const FhevmWalletProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { isConnected } = useAccount();
+  const { data: walletClient } = useWalletClient();
+  return (
+    <FhevmProvider config={fhevmConfig} walletClient={walletClient ?? null} enabled={isConnected}>
+      {children}
+    </FhevmProvider>
+  );
+};
+
 createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
     <QueryClientProvider client={queryClient}>
       <WagmiConfig config={config}>
         <BrowserRouter>
           <AdaptiveThemeProvider>
-            <App />
+            <FhevmWalletProvider>
+              <App />
+            </FhevmWalletProvider>
           </AdaptiveThemeProvider>
         </BrowserRouter>
       </WagmiConfig>
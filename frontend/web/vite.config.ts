@@ -3,6 +3,10 @@ import react from "@vitejs/plugin-react";
 
 export default defineConfig({
   plugins: [react()],
+  worker: {
+    // The FHEVM worker loads the relayer SDK with a dynamic import
+    format: "es"
+  },
   define: {
     'process.env': process.env
   },